@@ -0,0 +1,103 @@
+import { Img } from 'openimg/react'
+import { Fragment } from 'react'
+import { Link } from 'react-router'
+import { cn, getUserImgSrc } from '#app/utils/misc.tsx'
+import { type Diner, type DinerProfile } from '#app/utils/restaurants.server.ts'
+
+export function getDinerName(diner: DinerProfile) {
+	return diner.isAnonymous ? 'Anonymous diner' : (diner.name ?? diner.username)
+}
+
+export function DinerAvatar({
+	diner,
+	className,
+}: {
+	diner: DinerProfile
+	className?: string
+}) {
+	return (
+		<Img
+			src={getUserImgSrc(diner.isAnonymous ? null : diner.image?.objectKey)}
+			alt={getDinerName(diner)}
+			className={cn('h-8 w-8 rounded-full object-cover', className)}
+			width={64}
+			height={64}
+		/>
+	)
+}
+
+/**
+ * A diner's name, linking to their profile unless they're anonymous
+ */
+export function DinerName({
+	diner,
+	className,
+}: {
+	diner: DinerProfile
+	className?: string
+}) {
+	if (diner.isAnonymous) {
+		return (
+			<span className={cn('text-muted-foreground', className)}>
+				{getDinerName(diner)}
+			</span>
+		)
+	}
+	return (
+		<Link
+			to={`/users/${diner.username}`}
+			className={cn('hover:underline', className)}
+		>
+			{getDinerName(diner)}
+		</Link>
+	)
+}
+
+/**
+ * Overlapping avatars of the first few diners, followed by their names
+ */
+export function DinerStack({
+	diners,
+	max = 4,
+}: {
+	diners: Diner[]
+	max?: number
+}) {
+	if (!diners.length) return null
+
+	const shown = diners.slice(0, max)
+	const hiddenCount = diners.length - shown.length
+	return (
+		<div className="flex min-w-0 items-center gap-2">
+			<div className="flex shrink-0 -space-x-2" aria-hidden>
+				{shown.map((diner) => (
+					<DinerAvatar
+						key={diner.attendeeId}
+						diner={diner}
+						className="ring-2 ring-background"
+					/>
+				))}
+				{hiddenCount > 0 ? (
+					<span className="flex h-8 w-8 items-center justify-center rounded-full bg-muted text-xs font-medium ring-2 ring-background">
+						+{hiddenCount}
+					</span>
+				) : null}
+			</div>
+			<p className="min-w-0 truncate text-sm">
+				{shown.map((diner, index) => (
+					<Fragment key={diner.attendeeId}>
+						{index > 0
+							? index === shown.length - 1 && !hiddenCount
+								? ' and '
+								: ', '
+							: null}
+						<DinerName diner={diner} />
+					</Fragment>
+				))}
+				{hiddenCount > 0
+					? ` and ${hiddenCount} ${hiddenCount === 1 ? 'other' : 'others'}`
+					: null}
+			</p>
+		</div>
+	)
+}
@@ -0,0 +1,105 @@
+import { Fragment, type ReactNode } from 'react'
+import { Link } from 'react-router'
+import { parseMarkdown, type MarkdownInline } from '#app/utils/markdown.ts'
+import { cn } from '#app/utils/misc.tsx'
+
+type Mentions = {
+	// who can be mentioned, by username
+	mentionable: Array<string>
+	// the current user, whose mentions stand out
+	username: string
+}
+
+/**
+ * Renders a chat message's markdown. Mentions of the given usernames link to
+ * their profiles.
+ */
+export function Markdown({
+	content,
+	mentionable,
+	username,
+	className,
+}: Mentions & {
+	content: string
+	className?: string
+}) {
+	const mentions = { mentionable, username }
+	return (
+		<div className={cn('space-y-2 break-words', className)}>
+			{parseMarkdown(content).map((block, index) =>
+				block.type === 'list' ? (
+					<ul key={index} className="list-disc pl-5">
+						{block.items.map((item, itemIndex) => (
+							<li key={itemIndex}>{renderInline(item, mentions)}</li>
+						))}
+					</ul>
+				) : (
+					<p key={index}>
+						{block.lines.map((line, lineIndex) => (
+							<Fragment key={lineIndex}>
+								{lineIndex > 0 ? <br /> : null}
+								{renderInline(line, mentions)}
+							</Fragment>
+						))}
+					</p>
+				),
+			)}
+		</div>
+	)
+}
+
+function renderInline(
+	nodes: Array<MarkdownInline>,
+	mentions: Mentions,
+): Array<ReactNode> {
+	return nodes.map((node, index) => {
+		switch (node.type) {
+			case 'text':
+				return <Fragment key={index}>{node.text}</Fragment>
+			case 'strong':
+				return (
+					<strong key={index}>{renderInline(node.children, mentions)}</strong>
+				)
+			case 'emphasis':
+				return <em key={index}>{renderInline(node.children, mentions)}</em>
+			case 'code':
+				return (
+					<code
+						key={index}
+						className="rounded bg-muted px-1 font-mono text-[0.9em]"
+					>
+						{node.text}
+					</code>
+				)
+			case 'link':
+				return (
+					<a
+						key={index}
+						href={node.href}
+						target="_blank"
+						rel="noopener noreferrer nofollow"
+						className="text-primary underline"
+					>
+						{renderInline(node.children, mentions)}
+					</a>
+				)
+			case 'mention':
+				if (!mentions.mentionable.includes(node.username)) {
+					return <Fragment key={index}>@{node.username}</Fragment>
+				}
+				return (
+					<Link
+						key={index}
+						to={`/users/${node.username}`}
+						className={cn(
+							'font-medium text-primary hover:underline',
+							node.username === mentions.username &&
+								'rounded bg-primary/10 px-0.5',
+						)}
+					>
+						@{node.username}
+					</Link>
+				)
+		}
+	})
+}
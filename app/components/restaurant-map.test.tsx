@@ -0,0 +1,97 @@
+/**
+ * @vitest-environment jsdom
+ */
+import { render, screen } from '@testing-library/react'
+import { userEvent } from '@testing-library/user-event'
+import { expect, test } from 'vitest'
+import { RestaurantMap } from './restaurant-map.tsx'
+
+const venue = { name: 'Salt Palace', lat: 40.7596, lng: -111.8868 }
+const places = [
+	{
+		id: 'one',
+		name: 'Quiet Diner',
+		lat: 40.761,
+		lng: -111.89,
+		attendeeCount: 0,
+	},
+	{
+		id: 'two',
+		name: 'Busy Bistro',
+		lat: 40.755,
+		lng: -111.88,
+		attendeeCount: 5,
+	},
+]
+
+function renderMap() {
+	return render(
+		<RestaurantMap
+			venue={venue}
+			places={places}
+			tileUrl={null}
+			renderPopup={(place) => <p>Popup for {place.name}</p>}
+		/>,
+	)
+}
+
+test('plots the venue and a pin for each restaurant', () => {
+	renderMap()
+
+	expect(screen.getByRole('img', { name: 'Venue: Salt Palace' })).toBeVisible()
+	expect(
+		screen.getByRole('button', { name: 'Quiet Diner, 0 going' }),
+	).toBeVisible()
+	expect(
+		screen.getByRole('button', { name: 'Busy Bistro, 5 going' }),
+	).toHaveTextContent('5')
+	// no network tiles
+	expect(document.querySelectorAll('img')).toHaveLength(0)
+})
+
+test('keeps every pin inside the map', () => {
+	renderMap()
+
+	for (const pin of screen.getAllByRole('button')) {
+		const left = parseFloat(pin.style.left)
+		const top = parseFloat(pin.style.top)
+		expect(left).toBeGreaterThanOrEqual(0)
+		expect(left).toBeLessThanOrEqual(100)
+		expect(top).toBeGreaterThanOrEqual(0)
+		expect(top).toBeLessThanOrEqual(100)
+	}
+})
+
+test('clicking a pin opens its popup', async () => {
+	const user = userEvent.setup()
+	renderMap()
+
+	await user.click(screen.getByRole('button', { name: 'Busy Bistro, 5 going' }))
+	expect(screen.getByText('Popup for Busy Bistro')).toBeVisible()
+
+	await user.click(screen.getByRole('button', { name: 'Quiet Diner, 0 going' }))
+	expect(screen.queryByText('Popup for Busy Bistro')).not.toBeInTheDocument()
+	expect(screen.getByText('Popup for Quiet Diner')).toBeVisible()
+
+	await user.keyboard('{Escape}')
+	expect(screen.queryByText('Popup for Quiet Diner')).not.toBeInTheDocument()
+})
+
+test('uses the tile URL for the background', () => {
+	render(
+		<RestaurantMap
+			venue={venue}
+			places={places}
+			tileUrl="https://tiles.example.com/{z}/{x}/{y}.png"
+			renderPopup={() => null}
+		/>,
+	)
+
+	const tiles = [...document.querySelectorAll('img')]
+	expect(tiles.length).toBeGreaterThan(0)
+	for (const tile of tiles) {
+		expect(tile.getAttribute('src')).toMatch(
+			/^https:\/\/tiles\.example\.com\/\d+\/\d+\/\d+\.png$/,
+		)
+	}
+})
@@ -0,0 +1,213 @@
+import { X } from 'lucide-react'
+import { useEffect, useState, type ReactNode } from 'react'
+import { cn } from '#app/utils/misc.tsx'
+
+const TILE_SIZE = 256
+// The map is drawn in a fixed-size viewport and scaled to fit its container
+const WIDTH = 800
+const HEIGHT = 500
+const PADDING = 40
+const MAX_ZOOM = 17
+
+export const OSM_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png'
+
+type LatLng = { lat: number; lng: number }
+
+export type MapPlace = LatLng & {
+	id: string
+	name: string
+	attendeeCount: number
+}
+
+/**
+ * Projects a point to pixels on a Web Mercator map at a zoom level, the same
+ * way map tiles are drawn. See https://wiki.openstreetmap.org/wiki/Slippy_map_tilenames
+ */
+function project({ lat, lng }: LatLng, zoom: number) {
+	const scale = TILE_SIZE * 2 ** zoom
+	const sin = Math.sin(lat * (Math.PI / 180))
+	return {
+		x: ((lng + 180) / 360) * scale,
+		y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+	}
+}
+
+/**
+ * Gets the highest zoom level that fits all the points, and where the
+ * viewport's top left corner is at that zoom
+ */
+function getViewport(points: Array<LatLng>) {
+	const world = points.map((point) => project(point, 0))
+	const xs = world.map((point) => point.x)
+	const ys = world.map((point) => point.y)
+	const spanX = Math.max(...xs) - Math.min(...xs)
+	const spanY = Math.max(...ys) - Math.min(...ys)
+	// a single point fits at any zoom
+	const fit = Math.min(
+		spanX ? (WIDTH - PADDING * 2) / spanX : Infinity,
+		spanY ? (HEIGHT - PADDING * 2) / spanY : Infinity,
+	)
+	const zoom = Math.max(0, Math.min(MAX_ZOOM, Math.floor(Math.log2(fit))))
+	const scale = 2 ** zoom
+	return {
+		zoom,
+		left: ((Math.min(...xs) + Math.max(...xs)) / 2) * scale - WIDTH / 2,
+		top: ((Math.min(...ys) + Math.max(...ys)) / 2) * scale - HEIGHT / 2,
+	}
+}
+
+function getTiles(
+	{ zoom, left, top }: ReturnType<typeof getViewport>,
+	tileUrl: string,
+) {
+	const tileCount = 2 ** zoom
+	const tiles = []
+	for (
+		let y = Math.max(0, Math.floor(top / TILE_SIZE));
+		y <= Math.min(tileCount - 1, Math.floor((top + HEIGHT) / TILE_SIZE));
+		y++
+	) {
+		for (
+			let x = Math.floor(left / TILE_SIZE);
+			x <= Math.floor((left + WIDTH) / TILE_SIZE);
+			x++
+		) {
+			// tiles repeat around the antimeridian
+			const wrappedX = ((x % tileCount) + tileCount) % tileCount
+			tiles.push({
+				key: `${x}/${y}`,
+				src: tileUrl
+					.replace('{z}', String(zoom))
+					.replace('{x}', String(wrappedX))
+					.replace('{y}', String(y)),
+				left: x * TILE_SIZE - left,
+				top: y * TILE_SIZE - top,
+			})
+		}
+	}
+	return tiles
+}
+
+// Positions are percentages so the map scales with its container
+function toPercent({ left, top }: { left: number; top: number }) {
+	return { left: `${(left / WIDTH) * 100}%`, top: `${(top / HEIGHT) * 100}%` }
+}
+
+function getPinClassName(attendeeCount: number) {
+	if (attendeeCount === 0) return 'h-4 w-4 bg-muted-foreground'
+	if (attendeeCount < 4) return 'h-6 w-6 bg-primary text-primary-foreground'
+	return 'h-8 w-8 bg-primary text-primary-foreground ring-4 ring-primary/30'
+}
+
+/**
+ * Plots the venue and restaurants on a map. Clicking a pin shows whatever
+ * renderPopup returns for it. Without a tileUrl there's no background map, so
+ * it works without the network (like in tests).
+ */
+export function RestaurantMap<Place extends MapPlace>({
+	venue,
+	places,
+	renderPopup,
+	tileUrl = OSM_TILE_URL,
+}: {
+	venue: LatLng & { name: string }
+	places: Array<Place>
+	renderPopup: (place: Place) => ReactNode
+	tileUrl?: string | null
+}) {
+	const [selectedId, setSelectedId] = useState<string | null>(null)
+	const selected = places.find((place) => place.id === selectedId)
+
+	useEffect(() => {
+		if (!selected) return
+		function handleKeyDown(event: KeyboardEvent) {
+			if (event.key === 'Escape') setSelectedId(null)
+		}
+		document.addEventListener('keydown', handleKeyDown)
+		return () => document.removeEventListener('keydown', handleKeyDown)
+	}, [selected])
+
+	const viewport = getViewport([venue, ...places])
+	const getPosition = (point: LatLng) => {
+		const { x, y } = project(point, viewport.zoom)
+		return toPercent({ left: x - viewport.left, top: y - viewport.top })
+	}
+
+	return (
+		<div
+			className="relative aspect-[8/5] w-full overflow-hidden rounded-lg border bg-muted"
+			role="region"
+			aria-label="Map of restaurants"
+		>
+			{tileUrl
+				? getTiles(viewport, tileUrl).map((tile) => (
+						<img
+							key={tile.key}
+							src={tile.src}
+							alt=""
+							className="pointer-events-none absolute max-w-none select-none"
+							style={{
+								...toPercent(tile),
+								width: `${(TILE_SIZE / WIDTH) * 100}%`,
+								height: `${(TILE_SIZE / HEIGHT) * 100}%`,
+							}}
+						/>
+					))
+				: null}
+
+			<div
+				className="absolute flex h-5 w-5 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-sm border-2 border-background bg-foreground shadow"
+				style={getPosition(venue)}
+				role="img"
+				aria-label={`Venue: ${venue.name}`}
+				title={venue.name}
+			/>
+
+			{places.map((place) => (
+				<button
+					key={place.id}
+					type="button"
+					className={cn(
+						'absolute flex -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-background text-xs font-semibold shadow transition-transform hover:scale-110 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+						getPinClassName(place.attendeeCount),
+						place.id === selectedId && 'z-10 scale-125',
+					)}
+					style={getPosition(place)}
+					aria-label={`${place.name}, ${place.attendeeCount} going`}
+					aria-pressed={place.id === selectedId}
+					title={place.name}
+					onClick={() =>
+						setSelectedId(place.id === selectedId ? null : place.id)
+					}
+				>
+					{place.attendeeCount > 0 ? place.attendeeCount : null}
+				</button>
+			))}
+
+			{selected ? (
+				<div className="absolute inset-x-2 bottom-2 z-20 max-h-[calc(100%-1rem)] overflow-y-auto sm:left-auto sm:w-96">
+					<button
+						type="button"
+						className="absolute right-2 top-2 z-10 rounded-full bg-background p-1 shadow"
+						aria-label="Close"
+						onClick={() => setSelectedId(null)}
+					>
+						<X className="h-4 w-4" />
+					</button>
+					{renderPopup(selected)}
+				</div>
+			) : null}
+
+			{tileUrl === OSM_TILE_URL ? (
+				<a
+					href="https://www.openstreetmap.org/copyright"
+					target="_blank"
+					rel="noopener noreferrer"
+					className="absolute bottom-0 left-0 bg-background/80 px-1 text-[10px] text-muted-foreground"
+				>
+					© OpenStreetMap contributors
+				</a>
+			) : null}
+		</div>
+	)
+}
@@ -10,17 +10,24 @@ export function SearchBar({
 	status,
 	autoFocus = false,
 	autoSubmit = false,
+	action = '/users',
+	placeholder = 'Search',
+	keepSearchParams = false,
 }: {
 	status: 'idle' | 'pending' | 'success' | 'error'
 	autoFocus?: boolean
 	autoSubmit?: boolean
+	action?: string
+	placeholder?: string
+	// submit the page's other search params (like filters) along with the search
+	keepSearchParams?: boolean
 }) {
 	const id = useId()
 	const [searchParams] = useSearchParams()
 	const submit = useSubmit()
 	const isSubmitting = useIsPending({
 		formMethod: 'GET',
-		formAction: '/users',
+		formAction: action,
 	})
 
 	const handleFormChange = useDebounce(async (form: HTMLFormElement) => {
@@ -30,10 +37,22 @@ export function SearchBar({
 	return (
 		<Form
 			method="GET"
-			action="/users"
+			action={action}
 			className="flex flex-wrap items-center justify-center gap-2"
 			onChange={(e) => autoSubmit && handleFormChange(e.currentTarget)}
 		>
+			{keepSearchParams
+				? [...searchParams]
+						.filter(([name]) => name !== 'search')
+						.map(([name, value], index) => (
+							<input
+								key={`${name}-${index}`}
+								type="hidden"
+								name={name}
+								value={value}
+							/>
+						))
+				: null}
 			<div className="flex-1">
 				<Label htmlFor={id} className="sr-only">
 					Search
@@ -43,7 +62,7 @@ export function SearchBar({
 					name="search"
 					id={id}
 					defaultValue={searchParams.get('search') ?? ''}
-					placeholder="Search"
+					placeholder={placeholder}
 					className="w-full"
 					autoFocus={autoFocus}
 				/>
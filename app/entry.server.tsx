@@ -78,7 +78,12 @@ export default async function handleRequest(...args: DocRequestArgs) {
 									],
 									'font-src': ["'self'"],
 									'frame-src': ["'self'"],
-									'img-src': ["'self'", 'data:'],
+									// the restaurant map's tiles, see OSM_TILE_URL
+									'img-src': [
+										"'self'",
+										'data:',
+										'https://tile.openstreetmap.org',
+									],
 									'script-src': [
 										"'strict-dynamic'",
 										"'self'",
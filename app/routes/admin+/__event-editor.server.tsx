@@ -0,0 +1,56 @@
+import { parseWithZod } from '@conform-to/zod'
+import { data, type ActionFunctionArgs } from 'react-router'
+import { z } from 'zod'
+import { prisma } from '#app/utils/db.server.ts'
+import { requireUserWithRole } from '#app/utils/permissions.server.ts'
+import { redirectWithToast } from '#app/utils/toast.server.ts'
+import { EventEditorSchema } from './__event-editor'
+
+export async function action({ request }: ActionFunctionArgs) {
+	await requireUserWithRole(request, 'admin')
+	const formData = await request.formData()
+
+	const submission = await parseWithZod(formData, {
+		schema: EventEditorSchema.superRefine(async (data, ctx) => {
+			if (!data.id) return
+
+			const event = await prisma.event.findUnique({
+				select: { id: true },
+				where: { id: data.id },
+			})
+			if (!event) {
+				ctx.addIssue({
+					code: z.ZodIssueCode.custom,
+					message: 'Event not found',
+				})
+			}
+		}),
+		async: true,
+	})
+
+	if (submission.status !== 'success') {
+		return data(
+			{ result: submission.reply() },
+			{ status: submission.status === 'error' ? 400 : 200 },
+		)
+	}
+
+	const { id: eventId, ...event } = submission.value
+
+	const savedEvent = eventId
+		? await prisma.event.update({
+				select: { name: true },
+				where: { id: eventId },
+				data: event,
+			})
+		: await prisma.event.create({
+				select: { name: true },
+				data: event,
+			})
+
+	return redirectWithToast('/admin/events', {
+		type: 'success',
+		title: eventId ? 'Event updated' : 'Event created',
+		description: `${savedEvent.name} is ready for dinner plans.`,
+	})
+}
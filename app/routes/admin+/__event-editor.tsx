@@ -0,0 +1,165 @@
+import { getFormProps, getInputProps, useForm } from '@conform-to/react'
+import { getZodConstraint, parseWithZod } from '@conform-to/zod'
+import { Form } from 'react-router'
+import { z } from 'zod'
+import { floatingToolbarClassName } from '#app/components/floating-toolbar.tsx'
+import { ErrorList, Field } from '#app/components/forms.tsx'
+import { Button } from '#app/components/ui/button.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { useIsPending } from '#app/utils/misc.tsx'
+import { type Info } from './+types/events_.$eventId.edit.ts'
+
+const nameMaxLength = 100
+const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function isValidTimeZone(timeZone: string) {
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone })
+		return true
+	} catch {
+		return false
+	}
+}
+
+export const EventEditorSchema = z
+	.object({
+		id: z.string().optional(),
+		name: z.string().min(1).max(nameMaxLength),
+		venueName: z.string().min(1).max(nameMaxLength),
+		lat: z.number().min(-90).max(90),
+		lng: z.number().min(-180).max(180),
+		// date inputs submit "YYYY-MM-DD", which parses as midnight UTC
+		startDate: z.date(),
+		endDate: z.date(),
+		timezone: z
+			.string()
+			.refine(isValidTimeZone, 'Must be an IANA timezone like America/Denver'),
+		// time inputs submit "HH:MM"
+		dinnerStart: z.string().regex(timePattern, 'Must be a time like 18:00'),
+		dinnerEnd: z.string().regex(timePattern, 'Must be a time like 20:00'),
+	})
+	.refine((event) => event.endDate >= event.startDate, {
+		path: ['endDate'],
+		message: 'End date must not be before the start date',
+	})
+
+function toDateInputValue(date: Date | string) {
+	return new Date(date).toISOString().slice(0, 10)
+}
+
+export function EventEditor({
+	event,
+	actionData,
+}: {
+	event?: Info['loaderData']['event']
+	actionData?: Info['actionData']
+}) {
+	const isPending = useIsPending()
+
+	const [form, fields] = useForm({
+		id: 'event-editor',
+		constraint: getZodConstraint(EventEditorSchema),
+		lastResult: actionData?.result,
+		onValidate({ formData }) {
+			return parseWithZod(formData, { schema: EventEditorSchema })
+		},
+		defaultValue: event
+			? {
+					...event,
+					startDate: toDateInputValue(event.startDate),
+					endDate: toDateInputValue(event.endDate),
+				}
+			: { dinnerStart: '18:00', dinnerEnd: '20:00' },
+		shouldRevalidate: 'onBlur',
+	})
+
+	return (
+		<div className="container relative max-w-2xl pb-28">
+			<h1 className="text-h1">{event ? 'Edit event' : 'New event'}</h1>
+			<Form
+				method="POST"
+				className="mt-8 flex flex-col gap-1"
+				{...getFormProps(form)}
+			>
+				{event ? <input type="hidden" name="id" value={event.id} /> : null}
+				<Field
+					labelProps={{ children: 'Name' }}
+					inputProps={{
+						autoFocus: true,
+						...getInputProps(fields.name, { type: 'text' }),
+					}}
+					errors={fields.name.errors}
+				/>
+				<Field
+					labelProps={{ children: 'Venue' }}
+					inputProps={getInputProps(fields.venueName, { type: 'text' })}
+					errors={fields.venueName.errors}
+				/>
+				<div className="grid grid-cols-2 gap-4">
+					<Field
+						labelProps={{ children: 'Venue latitude' }}
+						inputProps={{
+							...getInputProps(fields.lat, { type: 'number' }),
+							step: 'any',
+						}}
+						errors={fields.lat.errors}
+					/>
+					<Field
+						labelProps={{ children: 'Venue longitude' }}
+						inputProps={{
+							...getInputProps(fields.lng, { type: 'number' }),
+							step: 'any',
+						}}
+						errors={fields.lng.errors}
+					/>
+				</div>
+				<div className="grid grid-cols-2 gap-4">
+					<Field
+						labelProps={{ children: 'First night' }}
+						inputProps={getInputProps(fields.startDate, { type: 'date' })}
+						errors={fields.startDate.errors}
+					/>
+					<Field
+						labelProps={{ children: 'Last night' }}
+						inputProps={getInputProps(fields.endDate, { type: 'date' })}
+						errors={fields.endDate.errors}
+					/>
+				</div>
+				<Field
+					labelProps={{ children: 'Timezone' }}
+					inputProps={{
+						...getInputProps(fields.timezone, { type: 'text' }),
+						placeholder: 'America/Denver',
+					}}
+					errors={fields.timezone.errors}
+				/>
+				<div className="grid grid-cols-2 gap-4">
+					<Field
+						labelProps={{ children: 'Dinner starts' }}
+						inputProps={getInputProps(fields.dinnerStart, { type: 'time' })}
+						errors={fields.dinnerStart.errors}
+					/>
+					<Field
+						labelProps={{ children: 'Dinner ends' }}
+						inputProps={getInputProps(fields.dinnerEnd, { type: 'time' })}
+						errors={fields.dinnerEnd.errors}
+					/>
+				</div>
+				<ErrorList id={form.errorId} errors={form.errors} />
+			</Form>
+			<div className={floatingToolbarClassName}>
+				<Button variant="destructive" {...form.reset.getButtonProps()}>
+					Reset
+				</Button>
+				<StatusButton
+					form={form.id}
+					type="submit"
+					disabled={isPending}
+					status={isPending ? 'pending' : 'idle'}
+				>
+					Submit
+				</StatusButton>
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,93 @@
+import { type SEOHandle } from '@nasa-gcn/remix-seo'
+import { Link } from 'react-router'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { Spacer } from '#app/components/spacer.tsx'
+import { Button } from '#app/components/ui/button.tsx'
+import { Icon } from '#app/components/ui/icon.tsx'
+import { prisma } from '#app/utils/db.server.ts'
+import { requireUserWithRole } from '#app/utils/permissions.server.ts'
+import { type Route } from './+types/events.ts'
+
+export const handle: SEOHandle = {
+	getSitemapEntries: () => null,
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+	await requireUserWithRole(request, 'admin')
+	const events = await prisma.event.findMany({
+		select: {
+			id: true,
+			name: true,
+			venueName: true,
+			startDate: true,
+			endDate: true,
+			timezone: true,
+			_count: { select: { dinnerGroups: true } },
+		},
+		orderBy: { startDate: 'desc' },
+	})
+	return { events }
+}
+
+// event dates are stored as midnight UTC of the calendar date
+const dateFormatter = new Intl.DateTimeFormat('en-US', {
+	dateStyle: 'medium',
+	timeZone: 'UTC',
+})
+
+export default function EventsAdminRoute({ loaderData }: Route.ComponentProps) {
+	return (
+		<div className="container">
+			<div className="flex items-center justify-between gap-4">
+				<h1 className="text-h1">Events</h1>
+				<Button asChild>
+					<Link to="new">
+						<Icon name="plus">New event</Icon>
+					</Link>
+				</Button>
+			</div>
+			<Spacer size="2xs" />
+			{loaderData.events.length ? (
+				<ul className="flex flex-col gap-4">
+					{loaderData.events.map((event) => (
+						<li
+							key={event.id}
+							className="flex items-center justify-between gap-4 rounded-lg border p-4"
+						>
+							<div>
+								<h2 className="text-h5">{event.name}</h2>
+								<p className="text-body-sm text-muted-foreground">
+									{event.venueName} ·{' '}
+									{dateFormatter.formatRange(event.startDate, event.endDate)} ·{' '}
+									{event.timezone}
+								</p>
+								<p className="text-body-sm text-muted-foreground">
+									{event._count.dinnerGroups} dinner groups
+								</p>
+							</div>
+							<Button asChild variant="secondary">
+								<Link to={`${event.id}/edit`}>
+									<Icon name="pencil-1">Edit</Icon>
+								</Link>
+							</Button>
+						</li>
+					))}
+				</ul>
+			) : (
+				<p className="text-muted-foreground">No events yet</p>
+			)}
+		</div>
+	)
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+			}}
+		/>
+	)
+}
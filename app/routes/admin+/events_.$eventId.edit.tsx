@@ -0,0 +1,51 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { prisma } from '#app/utils/db.server.ts'
+import { requireUserWithRole } from '#app/utils/permissions.server.ts'
+import { type Route } from './+types/events_.$eventId.edit.ts'
+import { EventEditor } from './__event-editor.tsx'
+
+export { action } from './__event-editor.server.tsx'
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+	await requireUserWithRole(request, 'admin')
+	const event = await prisma.event.findUnique({
+		select: {
+			id: true,
+			name: true,
+			venueName: true,
+			lat: true,
+			lng: true,
+			startDate: true,
+			endDate: true,
+			timezone: true,
+			dinnerStart: true,
+			dinnerEnd: true,
+		},
+		where: { id: params.eventId },
+	})
+	invariantResponse(event, 'Not found', { status: 404 })
+	return { event }
+}
+
+export default function EventEdit({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	return <EventEditor event={loaderData.event} actionData={actionData} />
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				403: ({ error }) => (
+					<p>You are not allowed to do that: {error?.data.message}</p>
+				),
+				404: ({ params }) => (
+					<p>No event with the id "{params.eventId}" exists</p>
+				),
+			}}
+		/>
+	)
+}
@@ -0,0 +1,14 @@
+import { requireUserWithRole } from '#app/utils/permissions.server.ts'
+import { type Route } from './+types/events_.new.ts'
+import { EventEditor } from './__event-editor.tsx'
+
+export { action } from './__event-editor.server.tsx'
+
+export async function loader({ request }: Route.LoaderArgs) {
+	await requireUserWithRole(request, 'admin')
+	return {}
+}
+
+export default function NewEvent({ actionData }: Route.ComponentProps) {
+	return <EventEditor actionData={actionData} />
+}
@@ -0,0 +1,300 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { Check, Copy, Star, Trophy } from 'lucide-react'
+import { useState } from 'react'
+import { data, Link, useFetcher } from 'react-router'
+import { z } from 'zod'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { Badge } from '#app/components/ui/badge.tsx'
+import { Button } from '#app/components/ui/button.tsx'
+import { Input } from '#app/components/ui/input.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { useLiveAttendance } from '#app/routes/resources+/attendance-events.tsx'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import { cn, getDomainUrl } from '#app/utils/misc.tsx'
+import { formatOpeningTime, getLocalTime } from '#app/utils/opening-hours.ts'
+import {
+	closeDinnerPollEarly,
+	getDinnerPoll,
+	voteInDinnerPoll,
+	type PollConflict,
+} from '#app/utils/polls.server.ts'
+import { createToastHeaders } from '#app/utils/toast.server.ts'
+import { type Route } from './+types/$pollId.ts'
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+	const userId = await requireUserId(request)
+	const poll = await getDinnerPoll({ pollId: params.pollId, userId })
+	invariantResponse(poll, 'Not found', { status: 404 })
+
+	return {
+		poll: {
+			...poll,
+			closesAtTime: formatOpeningTime(
+				getLocalTime(poll.closesAt, poll.event.timezone),
+			),
+		},
+		shareUrl: `${getDomainUrl(request)}/polls/${poll.id}`,
+	}
+}
+
+const ActionSchema = z.discriminatedUnion('intent', [
+	z.object({ intent: z.literal('vote'), restaurantId: z.string() }),
+	z.object({ intent: z.literal('close') }),
+])
+
+const conflictMessages: Record<PollConflict, string> = {
+	'poll-closed': 'Voting has already closed.',
+	'not-an-option': "That restaurant isn't in this poll.",
+	'not-creator': 'Only whoever started the poll can close it early.',
+}
+
+export async function action({ request, params }: Route.ActionArgs) {
+	const userId = await requireUserId(request)
+	const result = ActionSchema.safeParse(
+		Object.fromEntries(await request.formData()),
+	)
+	invariantResponse(result.success, 'Invalid poll action', { status: 400 })
+
+	const poll =
+		result.data.intent === 'vote'
+			? await voteInDinnerPoll({
+					userId,
+					pollId: params.pollId,
+					restaurantId: result.data.restaurantId,
+				})
+			: await closeDinnerPollEarly({ userId, pollId: params.pollId })
+
+	if (poll.status === 'conflict') {
+		return data({ status: 'error' } as const, {
+			headers: await createToastHeaders({
+				type: 'error',
+				title: 'Could not update the poll',
+				description: conflictMessages[poll.reason],
+			}),
+		})
+	}
+	return { status: 'success' } as const
+}
+
+export default function PollRoute({ loaderData }: Route.ComponentProps) {
+	const { poll, shareUrl } = loaderData
+
+	// Update the tally whenever anyone votes
+	useLiveAttendance({
+		eventId: poll.event.id,
+		night: poll.night,
+		pollId: poll.id,
+	})
+
+	const winner = poll.options.find((option) => option.id === poll.winnerId)
+	const creatorName = poll.createdBy?.name ?? poll.createdBy?.username
+
+	return (
+		<div className="container max-w-2xl space-y-6 py-8">
+			<div className="space-y-1">
+				<h1 className="text-3xl font-bold">Where should we eat?</h1>
+				<p className="text-muted-foreground">
+					{poll.event.name} on {poll.night}
+					{creatorName ? `, started by ${creatorName}` : null}
+				</p>
+			</div>
+
+			{poll.isClosed ? (
+				<div className="space-y-2 rounded-lg border p-4">
+					{winner ? (
+						<>
+							<p className="flex items-center gap-2 font-semibold">
+								<Trophy className="h-4 w-4" />
+								{winner.name} won with {winner.votes}{' '}
+								{winner.votes === 1 ? 'vote' : 'votes'}
+							</p>
+							<p className="text-sm text-muted-foreground">
+								Everyone who voted has joined its dinner group.
+							</p>
+							<Link
+								to={`/restaurants/${encodeURIComponent(winner.id)}?night=${poll.night}`}
+								className="text-sm text-primary hover:underline"
+							>
+								See who's going
+							</Link>
+						</>
+					) : (
+						<p className="font-semibold">Voting closed without any votes</p>
+					)}
+				</div>
+			) : (
+				<div className="space-y-2">
+					<p className="text-sm">
+						Voting closes at {poll.closesAtTime}. {poll.voteCount}{' '}
+						{poll.voteCount === 1 ? 'vote' : 'votes'} so far.
+					</p>
+					<ShareLink url={shareUrl} />
+				</div>
+			)}
+
+			<ul className="space-y-3">
+				{poll.options.map((option) => (
+					<li key={option.id}>
+						<PollOption
+							option={option}
+							voteCount={poll.voteCount}
+							isUserVote={poll.userVote === option.id}
+							isWinner={option.id === poll.winnerId}
+							isClosed={poll.isClosed}
+						/>
+					</li>
+				))}
+			</ul>
+
+			{poll.isUserCreator && !poll.isClosed ? <ClosePollForm /> : null}
+		</div>
+	)
+}
+
+function PollOption({
+	option,
+	voteCount,
+	isUserVote,
+	isWinner,
+	isClosed,
+}: {
+	option: {
+		id: string
+		name: string
+		rating: number | null
+		priceLevel: number | null
+		cuisines: Array<{ name: string; label: string }>
+		votes: number
+	}
+	voteCount: number
+	isUserVote: boolean
+	isWinner: boolean
+	isClosed: boolean
+}) {
+	const fetcher = useFetcher()
+	const isVoting = fetcher.state !== 'idle'
+	const share = voteCount ? Math.round((option.votes / voteCount) * 100) : 0
+
+	return (
+		<div
+			className={cn(
+				'space-y-2 rounded-lg border p-4',
+				(isWinner || isUserVote) && 'border-primary',
+			)}
+		>
+			<div className="flex items-start justify-between gap-4">
+				<div className="min-w-0 space-y-1">
+					<h2 className="truncate font-semibold">{option.name}</h2>
+					<div className="flex flex-wrap items-center gap-1">
+						{option.rating ? (
+							<Badge variant="secondary" className="flex items-center gap-1">
+								<Star className="h-3 w-3" />
+								{option.rating.toFixed(1)}
+							</Badge>
+						) : null}
+						{option.priceLevel ? (
+							<Badge variant="secondary">{'$'.repeat(option.priceLevel)}</Badge>
+						) : null}
+						{option.cuisines.map((cuisine) => (
+							<Badge key={cuisine.name} variant="outline">
+								{cuisine.label}
+							</Badge>
+						))}
+					</div>
+				</div>
+				{isClosed ? null : (
+					<fetcher.Form method="POST">
+						<input type="hidden" name="restaurantId" value={option.id} />
+						<StatusButton
+							type="submit"
+							name="intent"
+							value="vote"
+							size="sm"
+							variant={isUserVote ? 'default' : 'outline'}
+							status={isVoting ? 'pending' : 'idle'}
+							disabled={isVoting || isUserVote}
+						>
+							{isUserVote ? 'Your vote' : 'Vote'}
+						</StatusButton>
+					</fetcher.Form>
+				)}
+			</div>
+			<div
+				role="meter"
+				aria-label={`Votes for ${option.name}`}
+				aria-valuemin={0}
+				aria-valuemax={voteCount}
+				aria-valuenow={option.votes}
+				className="h-2 overflow-hidden rounded-full bg-muted"
+			>
+				<div className="h-full bg-primary" style={{ width: `${share}%` }} />
+			</div>
+			<p className="text-xs text-muted-foreground">
+				{option.votes} {option.votes === 1 ? 'vote' : 'votes'}
+			</p>
+		</div>
+	)
+}
+
+function ShareLink({ url }: { url: string }) {
+	const [isCopied, setIsCopied] = useState(false)
+
+	return (
+		<div className="flex gap-2">
+			<Input
+				readOnly
+				value={url}
+				aria-label="Link to this poll"
+				onFocus={(event) => event.currentTarget.select()}
+			/>
+			<Button
+				type="button"
+				variant="outline"
+				onClick={async () => {
+					await navigator.clipboard.writeText(url)
+					setIsCopied(true)
+				}}
+			>
+				{isCopied ? (
+					<Check className="h-4 w-4" />
+				) : (
+					<Copy className="h-4 w-4" />
+				)}
+				{isCopied ? 'Copied' : 'Copy link'}
+			</Button>
+		</div>
+	)
+}
+
+function ClosePollForm() {
+	const fetcher = useFetcher()
+
+	return (
+		<fetcher.Form method="POST">
+			<StatusButton
+				type="submit"
+				name="intent"
+				value="close"
+				variant="secondary"
+				status={fetcher.state !== 'idle' ? 'pending' : 'idle'}
+				disabled={fetcher.state !== 'idle'}
+			>
+				Close voting now
+			</StatusButton>
+		</fetcher.Form>
+	)
+}
+
+export const meta: Route.MetaFunction = () => {
+	return [{ title: 'Dinner poll | Epic Notes' }]
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				404: () => <p>This poll doesn't exist</p>,
+			}}
+		/>
+	)
+}
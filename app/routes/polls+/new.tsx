@@ -0,0 +1,282 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { Star } from 'lucide-react'
+import { useState } from 'react'
+import { data, Form, Link, redirect } from 'react-router'
+import { z } from 'zod'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { ErrorList } from '#app/components/forms.tsx'
+import { Input } from '#app/components/ui/input.tsx'
+import { Label } from '#app/components/ui/label.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import {
+	getActiveEvent,
+	getDefaultNight,
+	getEventNights,
+	getVenueTime,
+	nightToDate,
+} from '#app/utils/events.server.ts'
+import { useIsPending } from '#app/utils/misc.tsx'
+import {
+	createDinnerPoll,
+	MAX_POLL_OPTIONS,
+	MIN_POLL_OPTIONS,
+	type PollConflict,
+} from '#app/utils/polls.server.ts'
+import { getAllRestaurantDetails } from '#app/utils/restaurants.server.ts'
+import { useUser } from '#app/utils/user.ts'
+import { type Route } from './+types/new.ts'
+
+// enough to pick from without making a huge form
+const MAX_CHOICES = 50
+
+const PollFormSchema = z.object({
+	night: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+	closesAt: z
+		.string()
+		.regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Pick when voting closes'),
+	restaurantIds: z
+		.array(z.string())
+		.min(MIN_POLL_OPTIONS, 'Pick at least two restaurants')
+		.max(MAX_POLL_OPTIONS, 'Pick at most five restaurants'),
+})
+
+const conflictMessages: Record<PollConflict, string> = {
+	'poll-closed': 'That time has already passed, so nobody could vote',
+	'not-an-option': 'Some of those restaurants are no longer available',
+	'not-creator': 'Only whoever started the poll can close it',
+}
+
+async function requireEvent(request: Request) {
+	const event = await getActiveEvent(request)
+	invariantResponse(event, 'There are no events to plan dinner for yet', {
+		status: 404,
+	})
+	return event
+}
+
+function getNight(
+	request: Request,
+	event: Parameters<typeof getDefaultNight>[0],
+) {
+	const nights = getEventNights(event)
+	const nightParam = new URL(request.url).searchParams.get('night')
+	return nightParam && nights.includes(nightParam)
+		? nightParam
+		: getDefaultNight(event)
+}
+
+export async function loader({ request }: Route.LoaderArgs) {
+	const userId = await requireUserId(request)
+	const event = await requireEvent(request)
+	const night = getNight(request, event)
+
+	const { restaurants } = await getAllRestaurantDetails({
+		userId,
+		event,
+		date: nightToDate(night),
+	})
+
+	return {
+		event: { id: event.id, name: event.name },
+		night,
+		defaultClosesAt: event.dinnerStart,
+		minOptions: MIN_POLL_OPTIONS,
+		maxOptions: MAX_POLL_OPTIONS,
+		// where people are already going, then the best rated
+		restaurants: restaurants
+			.sort(
+				(a, b) =>
+					b.attendeeCount - a.attendeeCount ||
+					(b.rating ?? 0) - (a.rating ?? 0),
+			)
+			.slice(0, MAX_CHOICES)
+			.map((restaurant) => ({
+				id: restaurant.id,
+				name: restaurant.name,
+				rating: restaurant.rating,
+				priceLevel: restaurant.priceLevel,
+				distance: restaurant.distance,
+				cuisines: restaurant.cuisines.map((cuisine) => cuisine.label),
+				attendeeCount: restaurant.attendeeCount,
+			})),
+	}
+}
+
+export async function action({ request }: Route.ActionArgs) {
+	const userId = await requireUserId(request)
+	const event = await requireEvent(request)
+	const formData = await request.formData()
+	const result = PollFormSchema.safeParse({
+		night: formData.get('night'),
+		closesAt: formData.get('closesAt'),
+		restaurantIds: formData.getAll('restaurantId'),
+	})
+	if (!result.success) {
+		return data(
+			{ errors: result.error.issues.map((issue) => issue.message) },
+			{ status: 400 },
+		)
+	}
+
+	const { night, closesAt, restaurantIds } = result.data
+	// everyone who votes ends up in a group that night, so it has to be one of
+	// the event's
+	if (!getEventNights(event).includes(night)) {
+		return data(
+			{ errors: ["That night isn't part of the event"] },
+			{ status: 400 },
+		)
+	}
+
+	const poll = await createDinnerPoll({
+		userId,
+		eventId: event.id,
+		date: nightToDate(night),
+		restaurantIds,
+		closesAt: getVenueTime(night, closesAt, event.timezone),
+	})
+	if (poll.status === 'conflict') {
+		return data({ errors: [conflictMessages[poll.reason]] }, { status: 400 })
+	}
+	return redirect(`/polls/${poll.pollId}`)
+}
+
+export default function NewPollRoute({
+	loaderData,
+	actionData,
+}: Route.ComponentProps) {
+	const { event, night, defaultClosesAt, minOptions, maxOptions, restaurants } =
+		loaderData
+	const user = useUser()
+	const isPending = useIsPending()
+	const [filter, setFilter] = useState('')
+	const [selected, setSelected] = useState<Array<string>>([])
+	const isFull = selected.length >= maxOptions
+
+	return (
+		<div className="container max-w-2xl space-y-6 py-8">
+			<div className="space-y-1">
+				<h1 className="text-3xl font-bold">Start a dinner poll</h1>
+				<p className="text-muted-foreground">
+					Pick two to five restaurants for {event.name} on {night}, then share
+					the link so everyone can vote. When voting closes, everyone who voted
+					joins the winner's dinner group.
+				</p>
+			</div>
+
+			<Form method="POST" className="space-y-6">
+				<input type="hidden" name="night" value={night} />
+
+				<div className="space-y-1">
+					<Label htmlFor="closesAt">Voting closes at</Label>
+					<Input
+						id="closesAt"
+						name="closesAt"
+						type="time"
+						required
+						defaultValue={defaultClosesAt}
+						className="w-40"
+					/>
+				</div>
+
+				<fieldset className="space-y-2">
+					<legend className="font-semibold">
+						Restaurants ({selected.length}/{maxOptions})
+					</legend>
+					<Input
+						type="search"
+						aria-label="Filter restaurants"
+						placeholder="Filter by name or cuisine"
+						value={filter}
+						onChange={(event) => setFilter(event.currentTarget.value)}
+					/>
+					<ul className="max-h-[28rem] divide-y overflow-y-auto rounded-md border">
+						{restaurants.map((restaurant) => {
+							const isSelected = selected.includes(restaurant.id)
+							const matches = [restaurant.name, ...restaurant.cuisines].some(
+								(text) => text.toLowerCase().includes(filter.toLowerCase()),
+							)
+							return (
+								<li
+									key={restaurant.id}
+									// hidden rather than removed, so the checked ones still submit
+									hidden={!matches && !isSelected}
+								>
+									<label className="flex cursor-pointer items-center gap-3 px-3 py-2">
+										<input
+											type="checkbox"
+											name="restaurantId"
+											value={restaurant.id}
+											checked={isSelected}
+											disabled={isFull && !isSelected}
+											onChange={(event) => {
+												const { checked } = event.currentTarget
+												setSelected((ids) =>
+													checked
+														? [...ids, restaurant.id]
+														: ids.filter((id) => id !== restaurant.id),
+												)
+											}}
+										/>
+										<span className="min-w-0 flex-1">
+											<span className="block truncate font-medium">
+												{restaurant.name}
+											</span>
+											<span className="block truncate text-xs text-muted-foreground">
+												{[
+													...restaurant.cuisines,
+													`${restaurant.distance} mi`,
+													restaurant.priceLevel
+														? '$'.repeat(restaurant.priceLevel)
+														: null,
+													restaurant.attendeeCount
+														? `${restaurant.attendeeCount} going`
+														: null,
+												]
+													.filter(Boolean)
+													.join(' · ')}
+											</span>
+										</span>
+										{restaurant.rating ? (
+											<span className="flex items-center gap-1 text-sm">
+												<Star className="h-3 w-3" />
+												{restaurant.rating.toFixed(1)}
+											</span>
+										) : null}
+									</label>
+								</li>
+							)
+						})}
+					</ul>
+				</fieldset>
+
+				<ErrorList errors={actionData?.errors} />
+
+				<div className="flex items-center gap-4">
+					<StatusButton
+						type="submit"
+						status={isPending ? 'pending' : 'idle'}
+						disabled={isPending || selected.length < minOptions}
+					>
+						Start poll
+					</StatusButton>
+					<Link
+						to={`/users/${user.username}/restaurants?night=${night}`}
+						className="text-sm text-muted-foreground hover:underline"
+					>
+						Cancel
+					</Link>
+				</div>
+			</Form>
+		</div>
+	)
+}
+
+export const meta: Route.MetaFunction = () => {
+	return [{ title: 'Start a dinner poll | Epic Notes' }]
+}
+
+export function ErrorBoundary() {
+	return <GeneralErrorBoundary />
+}
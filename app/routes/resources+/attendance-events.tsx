@@ -0,0 +1,105 @@
+import { useEffect } from 'react'
+import { redirect, useRevalidator } from 'react-router'
+import { useEventSource } from 'remix-utils/sse/react'
+import { eventStream } from 'remix-utils/sse/server'
+import { z } from 'zod'
+import {
+	AttendanceEventSchema,
+	emitAttendanceEvents,
+	subscribeToAttendanceEvents,
+} from '#app/utils/attendance-events.server.ts'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import { isAttendingDinnerGroup } from '#app/utils/dinner-group-messages.server.ts'
+import { type Route } from './+types/attendance-events.ts'
+
+export async function loader({ request }: Route.LoaderArgs) {
+	const userId = await requireUserId(request)
+	const searchParams = new URL(request.url).searchParams
+	const eventId = searchParams.get('eventId')
+	const night = searchParams.get('night')
+	// poll pages only care about their poll, everyone else about dinner groups
+	const pollId = searchParams.get('pollId')
+	// and attendees chatting in a group about its messages
+	const dinnerGroupId = searchParams.get('dinnerGroupId')
+
+	return eventStream(request.signal, (send) => {
+		// Pages just revalidate, so they're only told what kind of change it was.
+		// Saying who made it would let anyone trace anonymous diners to their
+		// group. The id makes each one distinct, so the page revalidates even if
+		// the same kind of change happens twice in a row.
+		const notify = (type: string) =>
+			send({
+				event: 'attendance',
+				data: JSON.stringify({ type, id: crypto.randomUUID() }),
+			})
+
+		return subscribeToAttendanceEvents((event) => {
+			if (event.eventId !== eventId || event.night !== night) return
+			if (event.type === 'message-sent') {
+				if (!dinnerGroupId || event.dinnerGroupId !== dinnerGroupId) return
+				// checked every time, since the user may have left the group since
+				void isAttendingDinnerGroup(userId, dinnerGroupId)
+					.then((isAttending) => {
+						if (isAttending) notify(event.type)
+					})
+					.catch((error: unknown) => {
+						console.warn(
+							`Failed to check ${userId} is still in dinner group ${dinnerGroupId}`,
+							error,
+						)
+					})
+				return
+			}
+			const eventPollId = 'pollId' in event ? event.pollId : null
+			if (eventPollId !== pollId) return
+			notify(event.type)
+		})
+	})
+}
+
+// Other instances forward the attendance changes they make to this endpoint
+export async function action({ request }: Route.ActionArgs) {
+	const token = process.env.INTERNAL_COMMAND_TOKEN
+	const isAuthorized =
+		request.headers.get('Authorization') === `Bearer ${token}`
+	if (!isAuthorized) {
+		// nah, you can't be here...
+		return redirect('https://www.youtube.com/watch?v=dQw4w9WgXcQ')
+	}
+	const events = z.array(AttendanceEventSchema).parse(await request.json())
+	emitAttendanceEvents(events)
+	return { success: true }
+}
+
+/**
+ * Revalidates the page whenever someone joins or leaves a dinner group on
+ * the given night of an event, or with a poll, whenever someone votes in it.
+ * Pass the dinner group the user is attending to also hear about its messages.
+ */
+export function useLiveAttendance({
+	eventId,
+	night,
+	pollId,
+	dinnerGroupId,
+}: {
+	eventId: string
+	night: string
+	pollId?: string
+	dinnerGroupId?: string | null
+}) {
+	const { revalidate } = useRevalidator()
+	const searchParams = new URLSearchParams({
+		eventId,
+		night,
+		...(pollId ? { pollId } : {}),
+		...(dinnerGroupId ? { dinnerGroupId } : {}),
+	})
+	const lastEvent = useEventSource(
+		`/resources/attendance-events?${searchParams}`,
+		{ event: 'attendance' },
+	)
+
+	useEffect(() => {
+		if (lastEvent) void revalidate()
+	}, [lastEvent, revalidate])
+}
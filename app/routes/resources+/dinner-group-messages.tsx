@@ -0,0 +1,166 @@
+import { invariantResponse } from '@epic-web/invariant'
+import { Send } from 'lucide-react'
+import { useEffect, useRef } from 'react'
+import { data, useFetcher } from 'react-router'
+import { z } from 'zod'
+import { DinerAvatar, DinerName } from '#app/components/diners.tsx'
+import { Markdown } from '#app/components/markdown.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { Textarea } from '#app/components/ui/textarea.tsx'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import {
+	sendDinnerGroupMessage,
+	type MessageConflict,
+} from '#app/utils/dinner-group-messages.server.ts'
+import { cn } from '#app/utils/misc.tsx'
+import { type DinerProfile } from '#app/utils/restaurants.server.ts'
+import { createToastHeaders } from '#app/utils/toast.server.ts'
+import { useUser } from '#app/utils/user.ts'
+import { type Route } from './+types/dinner-group-messages.ts'
+
+const MAX_MESSAGE_LENGTH = 2000
+
+const MessageSchema = z.object({
+	dinnerGroupId: z.string(),
+	content: z.string().trim().min(1).max(MAX_MESSAGE_LENGTH),
+})
+
+const conflictMessages: Record<MessageConflict, string> = {
+	'group-dissolved': 'This group has since broken up.',
+	'not-attending': 'Only people going to this dinner can chat in it.',
+}
+
+export async function action({ request }: Route.ActionArgs) {
+	const userId = await requireUserId(request)
+	const result = MessageSchema.safeParse(
+		Object.fromEntries(await request.formData()),
+	)
+	invariantResponse(result.success, 'Invalid message', { status: 400 })
+
+	const message = await sendDinnerGroupMessage({ userId, ...result.data })
+	if (message.status === 'conflict') {
+		return data({ status: 'error' } as const, {
+			headers: await createToastHeaders({
+				type: 'error',
+				title: 'Could not send your message',
+				description: conflictMessages[message.reason],
+			}),
+		})
+	}
+	return { status: 'success' } as const
+}
+
+/**
+ * A dinner group's chat. New messages arrive with the page's live attendance
+ * updates.
+ */
+export function DinnerGroupChat({
+	dinnerGroupId,
+	messages,
+	mentionable,
+}: {
+	dinnerGroupId: string
+	messages: Array<{
+		id: string
+		content: string
+		sentAt: string
+		author: DinerProfile
+		isOwn: boolean
+	}>
+	// the usernames of the people going
+	mentionable: Array<string>
+}) {
+	const user = useUser()
+	const fetcher = useFetcher<typeof action>()
+	const formRef = useRef<HTMLFormElement>(null)
+	const listRef = useRef<HTMLOListElement>(null)
+	const isSending = fetcher.state !== 'idle'
+
+	useEffect(() => {
+		if (fetcher.state === 'idle' && fetcher.data?.status === 'success') {
+			formRef.current?.reset()
+		}
+	}, [fetcher.state, fetcher.data])
+
+	// keep the latest message in view
+	useEffect(() => {
+		listRef.current?.scrollTo({ top: listRef.current.scrollHeight })
+	}, [messages.length])
+
+	return (
+		<div className="space-y-4">
+			{messages.length ? (
+				<ol
+					ref={listRef}
+					aria-label="Messages"
+					className="max-h-96 space-y-3 overflow-y-auto"
+				>
+					{messages.map((message) => (
+						<li
+							key={message.id}
+							className={cn(
+								'flex gap-2',
+								message.isOwn && 'flex-row-reverse text-right',
+							)}
+						>
+							<DinerAvatar diner={message.author} className="shrink-0" />
+							<div
+								className={cn(
+									'min-w-0 max-w-[80%] space-y-1 rounded-lg px-3 py-2 text-left text-sm',
+									message.isOwn ? 'bg-primary/10' : 'bg-muted',
+								)}
+							>
+								<p className="text-xs text-muted-foreground">
+									<DinerName diner={message.author} className="font-medium" /> ·{' '}
+									{message.sentAt}
+								</p>
+								<Markdown
+									content={message.content}
+									mentionable={mentionable}
+									username={user.username}
+								/>
+							</div>
+						</li>
+					))}
+				</ol>
+			) : (
+				<p className="text-sm text-muted-foreground">
+					No messages yet. Running late? Let everyone know here.
+				</p>
+			)}
+
+			<fetcher.Form
+				ref={formRef}
+				method="POST"
+				action="/resources/dinner-group-messages"
+				className="flex items-end gap-2"
+			>
+				<input type="hidden" name="dinnerGroupId" value={dinnerGroupId} />
+				<Textarea
+					name="content"
+					aria-label="Message"
+					placeholder="Message the group. **Markdown** and @mentions work."
+					required
+					maxLength={MAX_MESSAGE_LENGTH}
+					rows={2}
+					className="min-h-0"
+					onKeyDown={(event) => {
+						// shift+enter for a new line
+						if (event.key === 'Enter' && !event.shiftKey) {
+							event.preventDefault()
+							event.currentTarget.form?.requestSubmit()
+						}
+					}}
+				/>
+				<StatusButton
+					type="submit"
+					status={isSending ? 'pending' : 'idle'}
+					disabled={isSending}
+					aria-label="Send"
+				>
+					<Send className="h-4 w-4" />
+				</StatusButton>
+			</fetcher.Form>
+		</div>
+	)
+}
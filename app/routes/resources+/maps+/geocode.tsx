@@ -0,0 +1,136 @@
+import { useId, useState } from 'react'
+import { useFetcher } from 'react-router'
+import { Input } from '#app/components/ui/input.tsx'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import { getActiveEvent } from '#app/utils/events.server.ts'
+import { geocode } from '#app/utils/geocode.server.ts'
+import { cn, useDebounce } from '#app/utils/misc.tsx'
+import { type GeocodeResult } from '#app/utils/providers/places-provider.ts'
+import { type Route } from './+types/geocode.ts'
+
+const MIN_QUERY_LENGTH = 3
+const MAX_QUERY_LENGTH = 200
+
+export async function loader({ request }: Route.LoaderArgs) {
+	await requireUserId(request)
+	const query = new URL(request.url).searchParams.get('query')?.trim() ?? ''
+	if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+		return { results: [] }
+	}
+
+	// People are looking for somewhere around the event they're at
+	const event = await getActiveEvent(request)
+	if (!event) return { results: [] }
+
+	try {
+		return { results: await geocode(query, event) }
+	} catch (error) {
+		console.warn('Geocoding failed:', error)
+		return { results: [] }
+	}
+}
+
+/**
+ * An input that suggests addresses and landmarks as you type
+ */
+export function AddressAutocomplete({
+	onSelect,
+	className,
+}: {
+	onSelect: (result: GeocodeResult) => void
+	className?: string
+}) {
+	const id = useId()
+	const fetcher = useFetcher<typeof loader>()
+	const [query, setQuery] = useState('')
+	const [isOpen, setIsOpen] = useState(false)
+	const [activeIndex, setActiveIndex] = useState(-1)
+	const results = fetcher.data?.results ?? []
+	const listboxId = `${id}-results`
+
+	const load = useDebounce((value: string) => {
+		void fetcher.load(
+			`/resources/maps/geocode?${new URLSearchParams({ query: value })}`,
+		)
+	}, 300)
+
+	function select(result: GeocodeResult) {
+		setQuery(result.name)
+		setIsOpen(false)
+		setActiveIndex(-1)
+		onSelect(result)
+	}
+
+	return (
+		<div className={cn('relative', className)}>
+			<Input
+				type="search"
+				role="combobox"
+				aria-label="Search near an address or landmark"
+				aria-autocomplete="list"
+				aria-expanded={isOpen && results.length > 0}
+				aria-controls={listboxId}
+				aria-activedescendant={
+					activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined
+				}
+				placeholder="Address or landmark"
+				autoComplete="off"
+				value={query}
+				onChange={(event) => {
+					setQuery(event.currentTarget.value)
+					setIsOpen(true)
+					setActiveIndex(-1)
+					if (event.currentTarget.value.trim().length >= MIN_QUERY_LENGTH) {
+						load(event.currentTarget.value)
+					}
+				}}
+				onKeyDown={(event) => {
+					if (event.key === 'ArrowDown') {
+						event.preventDefault()
+						setIsOpen(true)
+						setActiveIndex((index) => Math.min(index + 1, results.length - 1))
+					} else if (event.key === 'ArrowUp') {
+						event.preventDefault()
+						setActiveIndex((index) => Math.max(index - 1, 0))
+					} else if (event.key === 'Enter' && results[activeIndex]) {
+						event.preventDefault()
+						select(results[activeIndex])
+					} else if (event.key === 'Escape') {
+						setIsOpen(false)
+					}
+				}}
+				onBlur={() => setIsOpen(false)}
+			/>
+			{isOpen && results.length > 0 ? (
+				<ul
+					id={listboxId}
+					role="listbox"
+					className="absolute z-30 mt-1 w-full overflow-hidden rounded-md border bg-popover text-popover-foreground shadow-md"
+				>
+					{results.map((result, index) => (
+						<li
+							key={result.id}
+							id={`${listboxId}-${index}`}
+							role="option"
+							aria-selected={index === activeIndex}
+							className={cn(
+								'cursor-pointer px-3 py-2 text-sm',
+								index === activeIndex && 'bg-accent text-accent-foreground',
+							)}
+							// before the input's blur closes the list
+							onMouseDown={(event) => event.preventDefault()}
+							onClick={() => select(result)}
+						>
+							<div className="font-medium">{result.name}</div>
+							{result.address ? (
+								<div className="text-xs text-muted-foreground">
+									{result.address}
+								</div>
+							) : null}
+						</li>
+					))}
+				</ul>
+			) : null}
+		</div>
+	)
+}
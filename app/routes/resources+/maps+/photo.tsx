@@ -1,37 +1,31 @@
 import { invariant } from '@epic-web/invariant'
 import { LoaderFunctionArgs } from 'react-router'
+import { getPlacesProvider } from '#app/utils/places.server'
 
 export async function loader({ request }: LoaderFunctionArgs) {
   const url = new URL(request.url)
   const photoRef = url.searchParams.get('photoRef')
   
   invariant(photoRef, 'photoRef is required')
-  
-  const apiKey = process.env.GOOGLE_PLACES_API_KEY
-  invariant(apiKey, 'GOOGLE_PLACES_API_KEY must be set')
-
-  const photoUrl = new URL('https://maps.googleapis.com/maps/api/place/photo')
-  photoUrl.searchParams.append('maxwidth', '400')
-  photoUrl.searchParams.append('photoreference', photoRef)
-  photoUrl.searchParams.append('key', apiKey)
 
-  const response = await fetch(photoUrl.toString())
+  const response = await getPlacesProvider().getPhoto(photoRef, { maxWidth: 400 })
   
   if (!response.ok) {
     throw new Response('Failed to fetch photo', { status: response.status })
   }
 
-  // Forward the response headers and body
-  const headers = new Headers()
-  response.headers.forEach((value, key) => {
-    headers.set(key, value)
-  })
-  
-  // Set cache control for better performance
-  headers.set('Cache-Control', 'public, max-age=86400') // 24 hours
+  // Providers can hand back whatever a place links to, so only pass on
+  // images. SVGs can run scripts, and this is served from our own origin.
+  const contentType = response.headers.get('Content-Type') ?? ''
+  if (!contentType.startsWith('image/') || contentType.startsWith('image/svg+xml')) {
+    throw new Response('Not found', { status: 404 })
+  }
 
+  // Only our own headers, fetch has already decoded the body
   return new Response(response.body, {
-    status: response.status,
-    headers,
+    headers: {
+      'Content-Type': contentType,
+      'Cache-Control': 'public, max-age=86400', // 24 hours
+    },
   })
-} 
\ No newline at end of file
+}
@@ -0,0 +1,726 @@
+import { invariantResponse } from '@epic-web/invariant'
+import {
+	ArrowLeft,
+	Clock,
+	Flag,
+	Globe,
+	Map,
+	MapPin,
+	Phone,
+	Star,
+} from 'lucide-react'
+import { Link, useFetcher } from 'react-router'
+import {
+	DinerAvatar,
+	DinerName,
+	getDinerName,
+} from '#app/components/diners.tsx'
+import { GeneralErrorBoundary } from '#app/components/error-boundary.tsx'
+import { Badge } from '#app/components/ui/badge.tsx'
+import { Input } from '#app/components/ui/input.tsx'
+import { Label } from '#app/components/ui/label.tsx'
+import { StatusButton } from '#app/components/ui/status-button.tsx'
+import { Textarea } from '#app/components/ui/textarea.tsx'
+import { useLiveAttendance } from '#app/routes/resources+/attendance-events.tsx'
+import { DinnerGroupChat } from '#app/routes/resources+/dinner-group-messages.tsx'
+import { requireUserId } from '#app/utils/auth.server.ts'
+import { getDinnerGroupMessages } from '#app/utils/dinner-group-messages.server.ts'
+import {
+	getActiveEvent,
+	getDefaultNight,
+	getEventNights,
+	nightToDate,
+} from '#app/utils/events.server.ts'
+import {
+	formatOpeningTime,
+	formatTime,
+	getLocalTime,
+} from '#app/utils/opening-hours.ts'
+import { type OpeningHours } from '#app/utils/providers/places-provider.ts'
+import {
+	getRestaurantPlaceDetails,
+	getRestaurantWithAttendees,
+	type Diner,
+	type Reservation,
+	type ReservationStatus,
+} from '#app/utils/restaurants.server.ts'
+import { useUser } from '#app/utils/user.ts'
+import { type Route } from './+types/$restaurantId.ts'
+
+export async function loader({ request, params }: Route.LoaderArgs) {
+	const userId = await requireUserId(request)
+	const event = await getActiveEvent(request)
+	invariantResponse(event, 'There are no events to plan dinner for yet', {
+		status: 404,
+	})
+
+	const nights = getEventNights(event)
+	const nightParam = new URL(request.url).searchParams.get('night')
+	const night =
+		nightParam && nights.includes(nightParam)
+			? nightParam
+			: getDefaultNight(event)
+
+	const restaurant = await getRestaurantWithAttendees({
+		restaurantId: params.restaurantId,
+		userId,
+		eventId: event.id,
+		date: nightToDate(night),
+	})
+	invariantResponse(restaurant, 'Not found', { status: 404 })
+	// only for restaurants we know, so made-up IDs never reach the provider
+	const details = await getRestaurantPlaceDetails(restaurant.id)
+
+	// only people going can see the group's chat
+	const messages =
+		restaurant.dinnerGroupId && restaurant.isUserAttending
+			? await getDinnerGroupMessages({
+					userId,
+					dinnerGroupId: restaurant.dinnerGroupId,
+				})
+			: null
+
+	return {
+		event: { id: event.id, name: event.name },
+		night,
+		restaurant,
+		details,
+		messages: messages?.map(({ createdAt, ...message }) => ({
+			...message,
+			sentAt: formatOpeningTime(getLocalTime(createdAt, event.timezone)),
+		})),
+	}
+}
+
+const days = [
+	'Sunday',
+	'Monday',
+	'Tuesday',
+	'Wednesday',
+	'Thursday',
+	'Friday',
+	'Saturday',
+]
+
+function getHoursByDay(openingHours: OpeningHours) {
+	return days.map((day, index) => {
+		const periods = openingHours.periods.filter(
+			(period) => period.open.day === index,
+		)
+		const hours = periods.map((period) =>
+			period.close
+				? `${formatOpeningTime(period.open)} – ${formatOpeningTime(period.close)}`
+				: 'Open 24 hours',
+		)
+		return { day, hours: hours.length ? hours.join(', ') : 'Closed' }
+	})
+}
+
+export default function RestaurantRoute({ loaderData }: Route.ComponentProps) {
+	const { event, night, restaurant, details, messages } = loaderData
+	const user = useUser()
+
+	// Reload attendance whenever anyone joins or leaves a group tonight, and
+	// the chat whenever someone in ours says something
+	useLiveAttendance({
+		eventId: event.id,
+		night,
+		dinnerGroupId: messages ? restaurant.dinnerGroupId : null,
+	})
+
+	// the hours we stored will do if the places provider is down
+	const openingHours = details?.openingHours ?? restaurant.openingHours
+	const photoRefs = details?.photoRefs.length
+		? details.photoRefs
+		: restaurant.photoRef
+			? [restaurant.photoRef]
+			: []
+
+	return (
+		<div className="container space-y-8 py-8">
+			<Link
+				to={`/users/${user.username}/restaurants?night=${night}`}
+				className="flex items-center gap-1 text-sm text-primary hover:underline"
+			>
+				<ArrowLeft className="h-4 w-4" />
+				Back to restaurants
+			</Link>
+
+			<div className="space-y-2">
+				<h1 className="text-3xl font-bold">{restaurant.name}</h1>
+				<div className="flex flex-wrap items-center gap-2">
+					{restaurant.rating ? (
+						<Badge variant="secondary" className="flex items-center gap-1">
+							<Star className="h-3 w-3" />
+							{restaurant.rating.toFixed(1)}
+							{restaurant.ratingCount ? ` (${restaurant.ratingCount})` : null}
+						</Badge>
+					) : null}
+					{restaurant.priceLevel ? (
+						<Badge variant="secondary">
+							{'$'.repeat(restaurant.priceLevel)}
+						</Badge>
+					) : null}
+					{restaurant.cuisines.map((cuisine) => (
+						<Badge key={cuisine.name} variant="outline">
+							{cuisine.label}
+						</Badge>
+					))}
+				</div>
+			</div>
+
+			{photoRefs.length ? (
+				<div className="flex gap-4 overflow-x-auto pb-2">
+					{photoRefs.map((photoRef) => (
+						<img
+							key={photoRef}
+							src={`/resources/maps/photo?photoRef=${encodeURIComponent(photoRef)}`}
+							alt={restaurant.name}
+							className="h-48 w-72 shrink-0 rounded-lg object-cover"
+						/>
+					))}
+				</div>
+			) : null}
+
+			<div className="grid gap-8 md:grid-cols-2">
+				<section className="space-y-4">
+					<h2 className="text-2xl font-semibold">Details</h2>
+					{details ? (
+						<ul className="space-y-2 text-sm">
+							{details.address ? (
+								<li className="flex items-center gap-2">
+									<MapPin className="h-4 w-4" />
+									{details.address}
+								</li>
+							) : null}
+							{details.phoneNumber ? (
+								<li className="flex items-center gap-2">
+									<Phone className="h-4 w-4" />
+									<a
+										href={`tel:${details.phoneNumber}`}
+										className="hover:underline"
+									>
+										{details.phoneNumber}
+									</a>
+								</li>
+							) : null}
+							{details.website ? (
+								<li className="flex items-center gap-2">
+									<Globe className="h-4 w-4" />
+									<a
+										href={details.website}
+										target="_blank"
+										rel="noopener noreferrer"
+										className="truncate text-primary hover:underline"
+									>
+										{details.website.replace(/^https?:\/\/(www\.)?|\/$/g, '')}
+									</a>
+								</li>
+							) : null}
+						</ul>
+					) : (
+						<p className="text-sm text-muted-foreground">
+							We couldn't load this restaurant's details right now.
+						</p>
+					)}
+					{restaurant.mapsUrl ? (
+						<a
+							href={restaurant.mapsUrl}
+							target="_blank"
+							rel="noopener noreferrer"
+							className="flex items-center gap-1 text-sm text-primary hover:underline"
+						>
+							<Map className="h-4 w-4" />
+							Directions
+						</a>
+					) : null}
+					{openingHours ? (
+						<div className="space-y-2">
+							<h3 className="flex items-center gap-2 font-semibold">
+								<Clock className="h-4 w-4" />
+								Hours
+							</h3>
+							<dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+								{getHoursByDay(openingHours).map(({ day, hours }) => (
+									<div key={day} className="contents">
+										<dt className="font-medium">{day}</dt>
+										<dd className="text-muted-foreground">{hours}</dd>
+									</div>
+								))}
+							</dl>
+						</div>
+					) : null}
+				</section>
+
+				<section className="space-y-4">
+					<h2 className="text-2xl font-semibold">Who's going</h2>
+					{restaurant.diners.length ? (
+						<ul className="space-y-2">
+							{restaurant.diners.map((diner) => (
+								<li key={diner.attendeeId} className="flex items-center gap-2">
+									<DinerAvatar diner={diner} />
+									<DinerName diner={diner} />
+									{diner.isHost ? (
+										<Badge variant="secondary">Host</Badge>
+									) : null}
+									{restaurant.isUserHost &&
+									restaurant.dinnerGroupId &&
+									!diner.isHost ? (
+										<HostActions
+											username={user.username}
+											dinnerGroupId={restaurant.dinnerGroupId}
+											diner={diner}
+										/>
+									) : null}
+								</li>
+							))}
+						</ul>
+					) : (
+						<p className="text-sm text-muted-foreground">
+							Nobody is going here yet
+						</p>
+					)}
+					{restaurant.isFull ? (
+						<Badge variant="outline">
+							Full
+							{restaurant.waitlistCount > 0
+								? ` / ${restaurant.waitlistCount} waiting`
+								: null}
+						</Badge>
+					) : null}
+					{restaurant.isUserWaitlisted ? (
+						<p className="text-sm text-muted-foreground">
+							You're #{restaurant.userWaitlistPosition} on the waitlist
+						</p>
+					) : null}
+					<AttendanceForm
+						username={user.username}
+						eventId={event.id}
+						night={night}
+						restaurant={restaurant}
+					/>
+				</section>
+
+				{restaurant.dinnerGroupId ? (
+					<section className="space-y-4">
+						<h2 className="text-2xl font-semibold">Plans</h2>
+						{restaurant.isUserHost ? (
+							<PlansForm
+								username={user.username}
+								dinnerGroupId={restaurant.dinnerGroupId}
+								restaurant={restaurant}
+							/>
+						) : restaurant.meetingPoint ||
+						  restaurant.departureTime ||
+						  restaurant.notes ? (
+							<ul className="space-y-2 text-sm">
+								{restaurant.meetingPoint ? (
+									<li className="flex items-center gap-2">
+										<Flag className="h-4 w-4" />
+										Meet at {restaurant.meetingPoint}
+									</li>
+								) : null}
+								{restaurant.departureTime ? (
+									<li className="flex items-center gap-2">
+										<Clock className="h-4 w-4" />
+										Leaving at {formatTime(restaurant.departureTime)}
+									</li>
+								) : null}
+								{restaurant.notes ? (
+									<li className="whitespace-pre-wrap">{restaurant.notes}</li>
+								) : null}
+							</ul>
+						) : (
+							<p className="text-sm text-muted-foreground">
+								The host hasn't said where to meet yet
+							</p>
+						)}
+					</section>
+				) : null}
+
+				{restaurant.dinnerGroupId ? (
+					<section className="space-y-4">
+						<h2 className="text-2xl font-semibold">Reservation</h2>
+						{restaurant.isUserHost && restaurant.isOverReservation ? (
+							<p className="text-sm text-destructive">
+								{restaurant.attendeeCount} people are going, but the table is
+								for {restaurant.reservation?.partySize}. You might want to call
+								the restaurant.
+							</p>
+						) : null}
+						{restaurant.canEditReservation ? (
+							<ReservationForm
+								username={user.username}
+								dinnerGroupId={restaurant.dinnerGroupId}
+								reservation={restaurant.reservation}
+							/>
+						) : restaurant.reservation ? (
+							<dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+								<dt className="font-medium">Status</dt>
+								<dd>
+									{reservationStatusLabels[restaurant.reservation.status]}
+								</dd>
+								{restaurant.reservation.time ? (
+									<>
+										<dt className="font-medium">Time</dt>
+										<dd>{formatTime(restaurant.reservation.time)}</dd>
+									</>
+								) : null}
+								{restaurant.reservation.partySize ? (
+									<>
+										<dt className="font-medium">Party size</dt>
+										<dd>{restaurant.reservation.partySize}</dd>
+									</>
+								) : null}
+								{restaurant.reservation.name ? (
+									<>
+										<dt className="font-medium">Name</dt>
+										<dd>{restaurant.reservation.name}</dd>
+									</>
+								) : null}
+								{restaurant.reservation.code ? (
+									<>
+										<dt className="font-medium">Confirmation</dt>
+										<dd>{restaurant.reservation.code}</dd>
+									</>
+								) : null}
+							</dl>
+						) : (
+							<p className="text-sm text-muted-foreground">
+								Nobody has booked a table yet
+							</p>
+						)}
+					</section>
+				) : null}
+
+				{restaurant.dinnerGroupId && messages ? (
+					<section className="space-y-4 md:col-span-2">
+						<h2 className="text-2xl font-semibold">Chat</h2>
+						<DinnerGroupChat
+							dinnerGroupId={restaurant.dinnerGroupId}
+							messages={messages}
+							mentionable={restaurant.diners.flatMap((diner) =>
+								diner.isAnonymous ? [] : [diner.username],
+							)}
+						/>
+					</section>
+				) : null}
+			</div>
+		</div>
+	)
+}
+
+/**
+ * Joins or leaves with the restaurants page's action, so it works the same
+ * way there and here
+ */
+function AttendanceForm({
+	username,
+	eventId,
+	night,
+	restaurant,
+}: {
+	username: string
+	eventId: string
+	night: string
+	restaurant: {
+		id: string
+		dinnerGroupId: string | null
+		isFull: boolean
+		isUserAttending: boolean
+		isUserWaitlisted: boolean
+	}
+}) {
+	const fetcher = useFetcher()
+	const intent = fetcher.formData?.get('intent')
+	const isPending = fetcher.state !== 'idle'
+	const isLeaving = restaurant.isUserAttending || restaurant.isUserWaitlisted
+
+	return (
+		<fetcher.Form method="post" action={`/users/${username}/restaurants`}>
+			<input type="hidden" name="night" value={night} />
+			{isLeaving ? (
+				<>
+					<input type="hidden" name="intent" value="leave" />
+					<StatusButton
+						type="submit"
+						variant="destructive"
+						status={isPending && intent === 'leave' ? 'pending' : 'idle'}
+						disabled={isPending}
+					>
+						{restaurant.isUserWaitlisted ? 'Leave waitlist' : 'Leave'}
+					</StatusButton>
+				</>
+			) : (
+				<>
+					<input type="hidden" name="intent" value="join" />
+					<input type="hidden" name="eventId" value={eventId} />
+					<input type="hidden" name="restaurantId" value={restaurant.id} />
+					{restaurant.dinnerGroupId ? (
+						<input
+							type="hidden"
+							name="dinnerGroupId"
+							value={restaurant.dinnerGroupId}
+						/>
+					) : null}
+					<input
+						type="hidden"
+						name="waitlist"
+						value={String(restaurant.isFull)}
+					/>
+					<StatusButton
+						type="submit"
+						status={isPending && intent === 'join' ? 'pending' : 'idle'}
+						disabled={isPending}
+					>
+						{restaurant.isFull ? 'Join waitlist' : 'Join'}
+					</StatusButton>
+				</>
+			)}
+		</fetcher.Form>
+	)
+}
+
+/**
+ * Lets the host hand the role over to someone, or remove them from the group
+ */
+function HostActions({
+	username,
+	dinnerGroupId,
+	diner,
+}: {
+	username: string
+	dinnerGroupId: string
+	diner: Diner
+}) {
+	const fetcher = useFetcher()
+	const intent = fetcher.formData?.get('intent')
+	const isPending = fetcher.state !== 'idle'
+	const name = getDinerName(diner)
+
+	return (
+		<fetcher.Form
+			method="post"
+			action={`/users/${username}/restaurants`}
+			className="ml-auto flex gap-2"
+		>
+			<input type="hidden" name="dinnerGroupId" value={dinnerGroupId} />
+			<input type="hidden" name="attendeeId" value={diner.attendeeId} />
+			<StatusButton
+				type="submit"
+				name="intent"
+				value="transfer-host"
+				size="sm"
+				variant="outline"
+				status={isPending && intent === 'transfer-host' ? 'pending' : 'idle'}
+				disabled={isPending}
+				aria-label={`Make ${name} the host`}
+			>
+				Make host
+			</StatusButton>
+			<StatusButton
+				type="submit"
+				name="intent"
+				value="remove-attendee"
+				size="sm"
+				variant="destructive"
+				status={isPending && intent === 'remove-attendee' ? 'pending' : 'idle'}
+				disabled={isPending}
+				aria-label={`Remove ${name}`}
+			>
+				Remove
+			</StatusButton>
+		</fetcher.Form>
+	)
+}
+
+function PlansForm({
+	username,
+	dinnerGroupId,
+	restaurant,
+}: {
+	username: string
+	dinnerGroupId: string
+	restaurant: {
+		meetingPoint: string | null
+		departureTime: string | null
+		notes: string | null
+	}
+}) {
+	const fetcher = useFetcher()
+	const isSaving = fetcher.state !== 'idle'
+
+	return (
+		<fetcher.Form
+			method="post"
+			action={`/users/${username}/restaurants`}
+			className="space-y-4"
+		>
+			<input type="hidden" name="intent" value="update-plans" />
+			<input type="hidden" name="dinnerGroupId" value={dinnerGroupId} />
+			<div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+				<div className="space-y-1">
+					<Label htmlFor="meetingPoint">Meeting point</Label>
+					<Input
+						id="meetingPoint"
+						name="meetingPoint"
+						maxLength={100}
+						placeholder="Hilton lobby"
+						defaultValue={restaurant.meetingPoint ?? ''}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="departureTime">Leaving at</Label>
+					<Input
+						id="departureTime"
+						name="departureTime"
+						type="time"
+						defaultValue={restaurant.departureTime ?? ''}
+					/>
+				</div>
+			</div>
+			<div className="space-y-1">
+				<Label htmlFor="notes">Notes</Label>
+				<Textarea
+					id="notes"
+					name="notes"
+					maxLength={1000}
+					placeholder="Anything the group should know"
+					defaultValue={restaurant.notes ?? ''}
+				/>
+			</div>
+			<StatusButton
+				type="submit"
+				variant="secondary"
+				status={isSaving ? 'pending' : 'idle'}
+				disabled={isSaving}
+			>
+				Save plans
+			</StatusButton>
+		</fetcher.Form>
+	)
+}
+
+const reservationStatusLabels: Record<ReservationStatus | 'none', string> = {
+	none: 'Not booked',
+	requested: 'Requested',
+	confirmed: 'Confirmed',
+}
+
+/**
+ * Records the group's reservation. Whoever fills it in first becomes the one
+ * who booked it.
+ */
+function ReservationForm({
+	username,
+	dinnerGroupId,
+	reservation,
+}: {
+	username: string
+	dinnerGroupId: string
+	reservation: Reservation | null
+}) {
+	const fetcher = useFetcher()
+	const isSaving = fetcher.state !== 'idle'
+
+	return (
+		<fetcher.Form
+			method="post"
+			action={`/users/${username}/restaurants`}
+			className="space-y-4"
+		>
+			<input type="hidden" name="intent" value="update-reservation" />
+			<input type="hidden" name="dinnerGroupId" value={dinnerGroupId} />
+			<div className="grid gap-4 sm:grid-cols-3">
+				<div className="space-y-1">
+					<Label htmlFor="reservationStatus">Status</Label>
+					<select
+						id="reservationStatus"
+						name="status"
+						defaultValue={reservation?.status ?? 'none'}
+						className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+					>
+						{Object.entries(reservationStatusLabels).map(([value, label]) => (
+							<option key={value} value={value}>
+								{label}
+							</option>
+						))}
+					</select>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="reservationTime">Time</Label>
+					<Input
+						id="reservationTime"
+						name="time"
+						type="time"
+						defaultValue={reservation?.time ?? ''}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="reservationPartySize">Party size</Label>
+					<Input
+						id="reservationPartySize"
+						name="partySize"
+						type="number"
+						min={1}
+						max={100}
+						defaultValue={reservation?.partySize ?? ''}
+					/>
+				</div>
+			</div>
+			<div className="grid gap-4 sm:grid-cols-2">
+				<div className="space-y-1">
+					<Label htmlFor="reservationName">Name on the booking</Label>
+					<Input
+						id="reservationName"
+						name="name"
+						maxLength={100}
+						defaultValue={reservation?.name ?? ''}
+					/>
+				</div>
+				<div className="space-y-1">
+					<Label htmlFor="reservationCode">Confirmation code</Label>
+					<Input
+						id="reservationCode"
+						name="code"
+						maxLength={50}
+						defaultValue={reservation?.code ?? ''}
+					/>
+				</div>
+			</div>
+			<StatusButton
+				type="submit"
+				variant="secondary"
+				status={isSaving ? 'pending' : 'idle'}
+				disabled={isSaving}
+			>
+				Save reservation
+			</StatusButton>
+		</fetcher.Form>
+	)
+}
+
+export const meta: Route.MetaFunction = ({ data }) => {
+	return [
+		{
+			title: data
+				? `${data.restaurant.name} | Epic Notes`
+				: 'Restaurant | Epic Notes',
+		},
+	]
+}
+
+export function ErrorBoundary() {
+	return (
+		<GeneralErrorBoundary
+			statusHandlers={{
+				404: ({ error, params }) =>
+					error.data === 'Not found' ? (
+						<p>No restaurant with the id "{params.restaurantId}" exists</p>
+					) : (
+						<p>{error.data}</p>
+					),
+			}}
+		/>
+	)
+}
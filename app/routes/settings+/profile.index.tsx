@@ -5,7 +5,7 @@ import { type SEOHandle } from '@nasa-gcn/remix-seo'
 import { Img } from 'openimg/react'
 import { data, Link, useFetcher } from 'react-router'
 import { z } from 'zod'
-import { ErrorList, Field } from '#app/components/forms.tsx'
+import { CheckboxField, ErrorList, Field } from '#app/components/forms.tsx'
 import { Button } from '#app/components/ui/button.tsx'
 import { Icon } from '#app/components/ui/icon.tsx'
 import { StatusButton } from '#app/components/ui/status-button.tsx'
@@ -25,6 +25,7 @@ export const handle: SEOHandle = {
 const ProfileFormSchema = z.object({
 	name: NameSchema.optional(),
 	username: UsernameSchema,
+	anonymousDiner: z.boolean().optional(),
 })
 
 export async function loader({ request }: Route.LoaderArgs) {
@@ -36,6 +37,7 @@ export async function loader({ request }: Route.LoaderArgs) {
 			name: true,
 			username: true,
 			email: true,
+			anonymousDiner: true,
 			image: {
 				select: { objectKey: true },
 			},
@@ -203,7 +205,7 @@ async function profileUpdateAction({ userId, formData }: ProfileActionArgs) {
 		)
 	}
 
-	const { username, name } = submission.value
+	const { username, name, anonymousDiner } = submission.value
 
 	await prisma.user.update({
 		select: { username: true },
@@ -211,6 +213,7 @@ async function profileUpdateAction({ userId, formData }: ProfileActionArgs) {
 		data: {
 			name: name,
 			username: username,
+			anonymousDiner: anonymousDiner ?? false,
 		},
 	})
 
@@ -232,6 +235,7 @@ function UpdateProfile({ loaderData }: { loaderData: Info['loaderData'] }) {
 		defaultValue: {
 			username: loaderData.user.username,
 			name: loaderData.user.name,
+			anonymousDiner: loaderData.user.anonymousDiner,
 		},
 	})
 
@@ -253,6 +257,18 @@ function UpdateProfile({ loaderData }: { loaderData: Info['loaderData'] }) {
 					inputProps={getInputProps(fields.name, { type: 'text' })}
 					errors={fields.name.errors}
 				/>
+				<CheckboxField
+					className="col-span-6"
+					labelProps={{
+						htmlFor: fields.anonymousDiner.id,
+						children:
+							'Show me as an "anonymous diner" to others in my dinner groups',
+					}}
+					buttonProps={getInputProps(fields.anonymousDiner, {
+						type: 'checkbox',
+					})}
+					errors={fields.anonymousDiner.errors}
+				/>
 			</div>
 
 			<ErrorList errors={form.errors} id={form.errorId} />
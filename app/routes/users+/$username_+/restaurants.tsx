@@ -1,112 +1,428 @@
 import { invariant } from '@epic-web/invariant'
-import { useLoaderData, useSearchParams, Link, Form, useNavigation, useFetcher, type ActionFunctionArgs, type LoaderFunctionArgs  } from 'react-router'
+import { formatDistanceToNow } from 'date-fns'
+import { useState } from 'react'
+import { data, useLoaderData, useSearchParams, useLocation, Link, Form, useNavigation, useFetcher, type ActionFunctionArgs, type LoaderFunctionArgs  } from 'react-router'
 import { z } from 'zod'
 import { requireUserId } from '#app/utils/auth.server'
-import { getAllRestaurantDetails, joinDinnerGroup, leaveDinnerGroup, type RestaurantWithDetails } from '#app/utils/restaurants.server'
+import { getActiveEvent, getCalendarDate, getDefaultNight, getEvent, getEventNights, getEvents, nightToDate, setActiveEventId } from '#app/utils/events.server'
+import { getUserLocation, setUserLocation, type UserLocation } from '#app/utils/location.server'
+import { formatOpeningTime, formatTime, getDinnerPeriod, getLocalTime, getMinutesUntilClose } from '#app/utils/opening-hours'
+import { closeOverdueDinnerPolls, getOpenDinnerPolls } from '#app/utils/polls.server'
+import { type GeocodeResult, type OpeningHours, type OpeningHoursPoint } from '#app/utils/providers/places-provider'
+import { getAllRestaurantDetails, joinDinnerGroup, leaveDinnerGroup, removeDinnerGroupAttendee, setDinnerGroupCapacity, transferDinnerGroupHost, updateDinnerGroupPlans, updateDinnerGroupReservation, type AttendanceConflict, type AttendanceResult, type RestaurantWithDetails } from '#app/utils/restaurants.server'
+import { createToastHeaders, type ToastInput } from '#app/utils/toast.server'
 import { cn } from '#app/utils/misc.tsx'
+import { useOptionalUser, userHasRole } from '#app/utils/user'
+import { useLiveAttendance } from '#app/routes/resources+/attendance-events'
+import { AddressAutocomplete } from '#app/routes/resources+/maps+/geocode'
 import { StatusButton } from '#app/components/ui/status-button'
 import { Card, CardContent, CardFooter, CardHeader } from '#app/components/ui/card'
 import { Badge } from '#app/components/ui/badge'
+import { Button } from '#app/components/ui/button'
 import { Toggle } from '#app/components/ui/toggle'
-import { MapPin, Map, Star } from 'lucide-react'
+import { DinerStack } from '#app/components/diners'
+import { RestaurantMap } from '#app/components/restaurant-map'
+import { SearchBar } from '#app/components/search-bar'
+import { Clock, List, LocateFixed, MapPin, Map as MapIcon, Search, Star, Vote } from 'lucide-react'
 
-// Constants
-const HILTON_COORDINATES = {
-  lat: 40.7596,
-  lng: -111.8867,
+const CLOSING_SOON_MINUTES = 60
+const MAX_SEARCH_LENGTH = 100
+const PAGE_SIZE = 15
+// The filter values for restaurants without a price level or a rating
+const UNKNOWN = 'unknown'
+const UNRATED = 'unrated'
+
+const SortSchema = z.enum(['rating', 'distance', 'price', 'reviews', 'attendees'])
+  .catch('rating')
+
+type Sort = z.infer<typeof SortSchema>
+
+const sortLabels: Record<Sort, string> = {
+  rating: 'Best rated',
+  distance: 'Closest',
+  price: 'Cheapest',
+  reviews: 'Most reviewed',
+  attendees: 'Fewest attendees',
 }
 
 // Schemas
+const NightSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+
 const JoinDinnerSchema = z.object({
   intent: z.literal('join'),
+  eventId: z.string(),
   restaurantId: z.string(),
+  night: NightSchema,
+  // The group the user saw, so we can tell them if it dissolved in the meantime
+  dinnerGroupId: z.string().optional(),
+  // Only join the waitlist if the user knew the group was full
+  waitlist: z.enum(['true', 'false']).optional(),
 })
 
 const LeaveDinnerSchema = z.object({
   intent: z.literal('leave'),
+  night: NightSchema,
+})
+
+const SetCapacitySchema = z.object({
+  intent: z.literal('set-capacity'),
+  dinnerGroupId: z.string(),
+  maxPartySize: z.preprocess(
+    value => (value === '' ? undefined : value),
+    z.coerce.number().int().min(1).max(100).optional(),
+  ),
+})
+
+// "HH:MM" in the venue's timezone, or empty to clear it
+const OptionalTimeSchema = z.union([z.literal(''), z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/)])
+
+const UpdatePlansSchema = z.object({
+  intent: z.literal('update-plans'),
+  dinnerGroupId: z.string(),
+  meetingPoint: z.string().trim().max(100),
+  departureTime: OptionalTimeSchema,
+  notes: z.string().trim().max(1000),
+})
+
+const UpdateReservationSchema = z.object({
+  intent: z.literal('update-reservation'),
+  dinnerGroupId: z.string(),
+  status: z.enum(['none', 'requested', 'confirmed']),
+  time: OptionalTimeSchema,
+  partySize: z.preprocess(
+    value => (value === '' ? undefined : value),
+    z.coerce.number().int().min(1).max(100).optional(),
+  ),
+  name: z.string().trim().max(100),
+  code: z.string().trim().max(50),
+})
+
+const TransferHostSchema = z.object({
+  intent: z.literal('transfer-host'),
+  dinnerGroupId: z.string(),
+  attendeeId: z.string(),
+})
+
+const RemoveAttendeeSchema = z.object({
+  intent: z.literal('remove-attendee'),
+  dinnerGroupId: z.string(),
+  attendeeId: z.string(),
+})
+
+const SelectEventSchema = z.object({
+  intent: z.literal('select-event'),
+  eventId: z.string(),
+})
+
+const SetLocationSchema = z.object({
+  intent: z.literal('set-location'),
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  // The address or landmark they picked, if it's not where they are
+  label: z.string().trim().max(200).optional(),
+})
+
+const ClearLocationSchema = z.object({
+  intent: z.literal('clear-location'),
 })
 
 const ActionSchema = z.discriminatedUnion('intent', [
   JoinDinnerSchema,
   LeaveDinnerSchema,
+  SetCapacitySchema,
+  UpdatePlansSchema,
+  UpdateReservationSchema,
+  TransferHostSchema,
+  RemoveAttendeeSchema,
+  SelectEventSchema,
+  SetLocationSchema,
+  ClearLocationSchema,
 ])
 
 export async function loader({ request, params }: LoaderFunctionArgs) {
   const userId = await requireUserId(request)
   const url = new URL(request.url)
+  const [event, events] = await Promise.all([
+    getActiveEvent(request),
+    getEvents(),
+  ])
   
   // Get filter parameters from URL
   const distanceFilter = url.searchParams.get('distance') ? 
     parseInt(url.searchParams.get('distance') as string) : undefined
-  const ratingFilter = url.searchParams.get('rating') ? 
-    parseInt(url.searchParams.get('rating') as string) : undefined
-  const priceFilter = url.searchParams.get('price') ? 
-    parseInt(url.searchParams.get('price') as string) : undefined
+  // Ratings are a minimum, plus "unrated" to include places without one
+  const ratingParams = url.searchParams.getAll('rating')
+  const minRatingParam = ratingParams.find(value => /^[1-4]$/.test(value))
+  const ratingFilter = minRatingParam ? Number(minRatingParam) : undefined
+  const unratedFilter = ratingParams.includes(UNRATED)
+  // Prices are any of the selected levels, where null is "unknown"
+  const priceFilter = url.searchParams.getAll('price').flatMap(value => 
+    value === UNKNOWN ? [null] : /^[1-4]$/.test(value) ? [Number(value)] : []
+  )
+  const openAtDinnerFilter = url.searchParams.get('openAtDinner') === 'true'
+  const cuisineFilter = url.searchParams.getAll('cuisine')
+  const search = url.searchParams.get('search')?.trim().slice(0, MAX_SEARCH_LENGTH) || undefined
+  const sort = SortSchema.parse(url.searchParams.get('sort'))
+  const cursor = url.searchParams.get('cursor')
+  const view = url.searchParams.get('view') === 'map' ? 'map' : 'list'
   
   // Convert distance from miles to meters for the API
   const radiusInMeters = distanceFilter ? distanceFilter * 1609 : undefined // 1 mile = 1609 meters
   
-  // Get all restaurants with details
-  const allRestaurants = await getAllRestaurantDetails({
+  const filters: FilterValues = {
+    distance: distanceFilter,
+    rating: ratingFilter,
+    unrated: unratedFilter,
+    prices: priceFilter,
+    openAtDinner: openAtDinnerFilter,
+    cuisines: cuisineFilter,
+    search,
+    sort,
+    view,
+  }
+
+  // Nothing to search around until an admin has created an event
+  if (!event) {
+    return {
+      event: null,
+      events,
+      night: null,
+      nights: [],
+      dinnerTime: null,
+      cuisineOptions: [],
+      restaurantsWithAttendance: [],
+      hiddenDinnerPlanCount: 0,
+      polls: [],
+      restaurantsNearby: [],
+      nextCursor: null,
+      filters,
+      origin: getOrigin(null),
+      isStale: false,
+      lastUpdatedAgo: null,
+    }
+  }
+  
+  // Dinner groups are per night, defaulting to tonight while the event is on
+  const nights = getEventNights(event)
+  const nightParam = url.searchParams.get('night')
+  const night = nightParam && nights.includes(nightParam) ? 
+    nightParam : getDefaultNight(event)
+  
+  // Polls that have run out of time become groups before we show the groups
+  await closeOverdueDinnerPolls({ userId, eventId: event.id, date: nightToDate(night) })
+  
+  // Get all restaurants with details around the event's venue, or around the
+  // user if they shared their location
+  const userLocation = getUserLocation(request)
+  const { restaurants, isStale, lastUpdatedAt } = await getAllRestaurantDetails({
     userId,
-    userLat: HILTON_COORDINATES.lat,
-    userLng: HILTON_COORDINATES.lng,
+    event,
+    date: nightToDate(night),
+    userLat: userLocation?.lat,
+    userLng: userLocation?.lng,
     radius: radiusInMeters,
+    search,
   })
   
+  // Polls people are still voting in that night
+  const openPolls = await getOpenDinnerPolls(event.id, nightToDate(night))
+  const polls = openPolls.map(poll => ({
+    id: poll.id,
+    restaurantNames: poll.restaurants.map(restaurant => restaurant.name),
+    voteCount: poll._count.votes,
+    closesAt: formatOpeningTime(getLocalTime(poll.closesAt, event.timezone)),
+  }))
+  
+  // Opening hours are checked against the dinner window in the venue's
+  // timezone, and "closing soon" only makes sense if the night is tonight
+  const now = new Date()
+  const dinnerWindow = {
+    day: nightToDate(night).getUTCDay(),
+    start: event.dinnerStart,
+    end: event.dinnerEnd,
+  }
+  const localTime = night === getCalendarDate(now, event.timezone) ? 
+    getLocalTime(now, event.timezone) : null
+  const allRestaurants = restaurants.map(({ openingHours, ...restaurant }) => ({
+    ...restaurant,
+    ...getOpeningStatus(openingHours, dinnerWindow, localTime),
+  }))
+  
   // Split into two lists
-  const restaurantsWithAttendance = allRestaurants
+  const dinnerPlans = allRestaurants
     .filter(restaurant => restaurant.attendeeCount > 0)
-    .sort((a, b) => b.attendeeCount - a.attendeeCount)
+  // Busiest first, unless the user wants the groups that could use company.
+  // Nobody is going to the nearby ones, so this is where that sort shows.
+  const restaurantsWithAttendance = sort === 'attendees' ?
+    sortRestaurants(applyFilters(dinnerPlans, filters), sort) :
+    applyFilters(dinnerPlans, filters)
+      .sort((a, b) => b.attendeeCount - a.attendeeCount)
+  const hiddenDinnerPlanCount = dinnerPlans.length - restaurantsWithAttendance.length
+  
+  const nearby = allRestaurants
+    .filter(restaurant => restaurant.attendeeCount === 0 && restaurant.matchesSearch)
+  
+  // Offer the cuisines of every nearby restaurant, most common first, so
+  // picking one doesn't make the others disappear
+  const cuisineOptions = getCuisineOptions(nearby)
   
-  // Apply filters to restaurants without attendees
-  let restaurantsNearby = allRestaurants
-    .filter(restaurant => restaurant.attendeeCount === 0)
+  let restaurantsNearby = sortRestaurants(applyFilters(nearby, filters), sort)
+  
+  // The cursor is the last restaurant already shown, so a link to a page shows
+  // everything up to there plus the next page. If it's gone (say someone
+  // joined it), start over. Searches and the map show every match.
+  const cursorIndex = cursor ? 
+    restaurantsNearby.findIndex(restaurant => restaurant.id === cursor) : -1
+  const end = search || view === 'map' ? 
+    restaurantsNearby.length : cursorIndex + 1 + PAGE_SIZE
+  const nextCursor = end < restaurantsNearby.length ? 
+    restaurantsNearby[end - 1]!.id : null
+  restaurantsNearby = restaurantsNearby.slice(0, end)
+  
+  return {
+    event: {
+      id: event.id,
+      name: event.name,
+      venueName: event.venueName,
+      lat: event.lat,
+      lng: event.lng,
+    },
+    events,
+    night,
+    nights,
+    dinnerTime: `${formatTime(event.dinnerStart)} – ${formatTime(event.dinnerEnd)}`,
+    cuisineOptions,
+    restaurantsWithAttendance,
+    hiddenDinnerPlanCount,
+    polls,
+    restaurantsNearby,
+    nextCursor,
+    filters,
+    origin: getOrigin(userLocation),
+    isStale,
+    lastUpdatedAgo: lastUpdatedAt ? formatDistanceToNow(lastUpdatedAt) : null,
+  }
+}
+
+type Origin = { type: 'venue' | 'me' | 'address'; label: string | null }
+
+/**
+ * Gets what distances are measured from: the venue, where the user is, or an
+ * address they picked
+ */
+function getOrigin(location: UserLocation | null): Origin {
+  if (!location) return { type: 'venue', label: null }
+  return location.label ? 
+    { type: 'address', label: location.label } : 
+    { type: 'me', label: null }
+}
+
+function applyFilters(restaurants: RestaurantListItem[], filters: FilterValues) {
+  let filtered = restaurants
   
   // Apply distance filter
-  if (distanceFilter) {
-    restaurantsNearby = restaurantsNearby.filter(
-      restaurant => restaurant.distance <= distanceFilter
+  const { distance } = filters
+  if (distance) {
+    filtered = filtered.filter(restaurant => restaurant.distance <= distance)
+  }
+  
+  // Apply rating filter. Unrated places are only included if asked for, since
+  // we can't say they meet the minimum.
+  const { rating, unrated } = filters
+  if (rating || unrated) {
+    filtered = filtered.filter(restaurant => 
+      restaurant.rating === null ? 
+        unrated : rating !== undefined && restaurant.rating >= rating
     )
   }
   
-  // Apply rating filter
-  if (ratingFilter) {
-    restaurantsNearby = restaurantsNearby.filter(
-      restaurant => (restaurant.rating ?? 0) >= ratingFilter
+  // Apply price filter, matching any of the selected price levels
+  if (filters.prices.length) {
+    filtered = filtered.filter(
+      restaurant => filters.prices.includes(restaurant.priceLevel)
     )
   }
   
-  // Apply price filter
-  if (priceFilter) {
-    restaurantsNearby = restaurantsNearby.filter(
-      restaurant => restaurant.priceLevel === priceFilter
+  // Apply open at dinner filter, keeping places we don't have hours for
+  if (filters.openAtDinner) {
+    filtered = filtered.filter(
+      restaurant => restaurant.isOpenAtDinner !== false
     )
   }
   
-  // Sort by rating (desc) and distance (asc) as tiebreaker
-  restaurantsNearby = restaurantsNearby
-    .sort((a, b) => {
-      // First by rating (descending)
-      const ratingDiff = (b.rating ?? 0) - (a.rating ?? 0)
-      if (ratingDiff !== 0) return ratingDiff
-      
-      // Then by distance (ascending)
-      return a.distance - b.distance
-    })
-    .slice(0, 15) // Limit to top 15
+  // Apply cuisine filter, matching any of the selected cuisines
+  if (filters.cuisines.length) {
+    filtered = filtered.filter(
+      restaurant => restaurant.cuisines.some(
+        cuisine => filters.cuisines.includes(cuisine.name)
+      )
+    )
+  }
   
+  return filtered
+}
+
+const compareBy: Record<Sort, (a: RestaurantListItem, b: RestaurantListItem) => number> = {
+  rating: (a, b) => (b.rating ?? 0) - (a.rating ?? 0),
+  distance: (a, b) => a.distance - b.distance,
+  // Restaurants without a price level go last
+  price: (a, b) => (a.priceLevel ?? 5) - (b.priceLevel ?? 5),
+  reviews: (a, b) => (b.ratingCount ?? 0) - (a.ratingCount ?? 0),
+  attendees: (a, b) => 
+    a.attendeeCount + a.waitlistCount - (b.attendeeCount + b.waitlistCount),
+}
+
+/**
+ * Sorts restaurants, breaking ties by rating, then distance, then ID so the
+ * order (and so the cursor) is the same every time
+ */
+function sortRestaurants(restaurants: RestaurantListItem[], sort: Sort) {
+  return [...restaurants].sort((a, b) =>
+    compareBy[sort](a, b) ||
+    compareBy.rating(a, b) ||
+    compareBy.distance(a, b) ||
+    a.id.localeCompare(b.id)
+  )
+}
+
+function getOpeningStatus(
+  openingHours: OpeningHours | null,
+  dinnerWindow: { day: number; start: string; end: string },
+  localTime: OpeningHoursPoint | null,
+) {
+  // We don't know, so don't claim anything
+  if (!openingHours) {
+    return { isOpenAtDinner: null, closesAt: null, isClosingSoon: false }
+  }
+  
+  const dinnerPeriod = getDinnerPeriod(openingHours, dinnerWindow)
+  const minutesUntilClose = localTime ? 
+    getMinutesUntilClose(openingHours, localTime) : null
   return {
-    restaurantsWithAttendance,
-    restaurantsNearby,
-    filters: {
-      distance: distanceFilter,
-      rating: ratingFilter,
-      price: priceFilter,
-    },
+    isOpenAtDinner: Boolean(dinnerPeriod),
+    closesAt: dinnerPeriod?.close ? formatOpeningTime(dinnerPeriod.close) : null,
+    isClosingSoon: minutesUntilClose !== null && 
+      minutesUntilClose <= CLOSING_SOON_MINUTES,
   }
 }
 
+function getCuisineOptions(
+  restaurants: Array<{ cuisines: Array<{ name: string; label: string }> }>
+) {
+  const options = new Map<string, { name: string; label: string; count: number }>()
+  for (const cuisine of restaurants.flatMap(restaurant => restaurant.cuisines)) {
+    const option = options.get(cuisine.name) ?? { ...cuisine, count: 0 }
+    option.count++
+    options.set(cuisine.name, option)
+  }
+  return [...options.values()]
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .map(({ name, label }) => ({ name, label }))
+}
+
+type RestaurantListItem = Omit<RestaurantWithDetails, 'openingHours'> & 
+  ReturnType<typeof getOpeningStatus>
+
 export async function action({ request }: ActionFunctionArgs) {
   const userId = await requireUserId(request)
   const formData = await request.formData()
@@ -116,106 +432,587 @@ export async function action({ request }: ActionFunctionArgs) {
     return { status: 'error', errors: result.error.flatten() }
   }
   
-  const { intent } = result.data
+  if (result.data.intent === 'select-event') {
+    return data(
+      { status: 'success' },
+      { headers: { 'set-cookie': setActiveEventId(result.data.eventId) } },
+    )
+  }
   
-  if (intent === 'join') {
-    const { restaurantId } = result.data
-    await joinDinnerGroup({ userId, restaurantId })
-  } else if (intent === 'leave') {
-    await leaveDinnerGroup({ userId })
+  if (result.data.intent === 'set-location' || result.data.intent === 'clear-location') {
+    const location = result.data.intent === 'set-location' ? 
+      { lat: result.data.lat, lng: result.data.lng, label: result.data.label || null } : null
+    return data(
+      { status: 'success' },
+      { headers: { 'set-cookie': setUserLocation(location) } },
+    )
   }
   
-  return { status: 'success' }
+  let attendance: AttendanceResult
+  if (result.data.intent === 'join') {
+    const { eventId, restaurantId, night, dinnerGroupId, waitlist } = result.data
+    // The form says which event and night, but it has to be a night of an
+    // event that exists
+    const event = await getEvent(eventId)
+    if (!event || !getEventNights(event).includes(night)) {
+      return data(
+        { status: 'error' },
+        {
+          status: 400,
+          headers: await createToastHeaders({
+            type: 'error',
+            title: 'Could not update your dinner plans',
+            description: "That night isn't part of the event anymore.",
+          }),
+        },
+      )
+    }
+    attendance = await joinDinnerGroup({ 
+      userId, 
+      eventId, 
+      restaurantId, 
+      date: nightToDate(night),
+      dinnerGroupId,
+      waitlist: waitlist === 'true',
+    })
+  } else if (result.data.intent === 'leave') {
+    attendance = await leaveDinnerGroup({ userId, date: nightToDate(result.data.night) })
+  } else if (result.data.intent === 'set-capacity') {
+    const { dinnerGroupId, maxPartySize } = result.data
+    attendance = await setDinnerGroupCapacity({
+      userId,
+      dinnerGroupId,
+      maxPartySize: maxPartySize ?? null,
+    })
+  } else if (result.data.intent === 'update-plans') {
+    const { dinnerGroupId, meetingPoint, departureTime, notes } = result.data
+    attendance = await updateDinnerGroupPlans({
+      userId,
+      dinnerGroupId,
+      meetingPoint: meetingPoint || null,
+      departureTime: departureTime || null,
+      notes: notes || null,
+    })
+  } else if (result.data.intent === 'update-reservation') {
+    const { dinnerGroupId, status, time, partySize, name, code } = result.data
+    attendance = await updateDinnerGroupReservation({
+      userId,
+      dinnerGroupId,
+      reservation: status === 'none' ? null : {
+        status,
+        time: time || null,
+        partySize: partySize ?? null,
+        name: name || null,
+        code: code || null,
+      },
+    })
+  } else if (result.data.intent === 'transfer-host') {
+    const { dinnerGroupId, attendeeId } = result.data
+    attendance = await transferDinnerGroupHost({ userId, dinnerGroupId, attendeeId })
+  } else {
+    const { dinnerGroupId, attendeeId } = result.data
+    attendance = await removeDinnerGroupAttendee({ userId, dinnerGroupId, attendeeId })
+  }
+  
+  const toast = getAttendanceToast(attendance)
+  return data(
+    { status: attendance.status === 'conflict' ? 'error' : 'success' },
+    toast ? { headers: await createToastHeaders(toast) } : undefined,
+  )
+}
+
+const conflictMessages: Record<AttendanceConflict, string> = {
+  'group-dissolved': 'That dinner group broke up before you could join. You can start a new one.',
+  'group-full': 'That dinner group just filled up. You can join the waitlist instead.',
+  'not-attending': "You aren't in a dinner group that night.",
+  'not-host': 'Only the host of this group can change it.',
+  'not-in-group': "That person isn't in this dinner group anymore.",
+  'not-booker': 'Only the host or whoever booked the table can change the reservation.',
+}
+
+function getAttendanceToast(attendance: AttendanceResult): ToastInput | null {
+  switch (attendance.status) {
+    case 'conflict':
+      return {
+        type: 'error',
+        title: 'Could not update your dinner plans',
+        description: conflictMessages[attendance.reason],
+      }
+    case 'waitlisted':
+      return {
+        type: 'message',
+        title: 'Added to the waitlist',
+        description: `You're #${attendance.position} in line. We'll email you if a seat opens up.`,
+      }
+    default:
+      return null
+  }
 }
 
 export default function RestaurantsRoute() {
-  const { restaurantsWithAttendance, restaurantsNearby, filters } = useLoaderData<typeof loader>()
+  const { event, events, night, nights, dinnerTime, cuisineOptions, restaurantsWithAttendance, hiddenDinnerPlanCount, polls, restaurantsNearby, nextCursor, filters, origin, isStale, lastUpdatedAgo } = useLoaderData<typeof loader>()
+  const user = useOptionalUser()
+  const isAdmin = userHasRole(user ?? null, 'admin')
   
   return (
     <div className="container py-8 space-y-8">
-      <h1 className="text-3xl font-bold">Restaurants</h1>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Restaurants</h1>
+          {event ? (
+            <OriginSelector venueName={event.venueName} origin={origin} />
+          ) : null}
+        </div>
+        <div className="flex items-center gap-4">
+          {event ? <EventSelector eventId={event.id} events={events} /> : null}
+          {isAdmin ? (
+            <Link to="/admin/events" className="text-sm text-primary hover:underline">
+              Manage events
+            </Link>
+          ) : null}
+        </div>
+      </div>
       
-      <DinnerPlansSection restaurants={restaurantsWithAttendance} />
+      {isStale ? <StaleDataBanner lastUpdatedAgo={lastUpdatedAgo} /> : null}
       
-      <RestaurantListSection 
-        restaurants={restaurantsNearby} 
-        currentFilters={filters} 
-      />
+      {event && night && dinnerTime ? (
+        <>
+          <NightSelector night={night} nights={nights} />
+          
+          <DinnerPlansSection 
+            eventId={event.id} 
+            night={night} 
+            restaurants={restaurantsWithAttendance} 
+            hiddenCount={hiddenDinnerPlanCount}
+            polls={polls}
+          />
+          
+          <RestaurantListSection 
+            event={event}
+            night={night}
+            dinnerPlans={restaurantsWithAttendance}
+            restaurants={restaurantsNearby} 
+            nextCursor={nextCursor}
+            currentFilters={filters} 
+            dinnerTime={dinnerTime}
+            cuisineOptions={cuisineOptions}
+          />
+        </>
+      ) : (
+        <div className="h-[220px] border-2 border-dashed rounded-lg flex items-center justify-center text-muted-foreground">
+          There are no events to plan dinner for yet
+        </div>
+      )}
+    </div>
+  )
+}
+
+function StaleDataBanner({ lastUpdatedAgo }: { lastUpdatedAgo: string | null }) {
+  return (
+    <div role="status" className="rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-4 text-sm">
+      We couldn't reach our restaurant data provider, so these restaurants may be
+      out of date{lastUpdatedAgo ? ` (last updated ${lastUpdatedAgo} ago)` : ''}.
+      Dinner plans are still up to date.
+    </div>
+  )
+}
+
+function OriginSelector({ 
+  venueName, 
+  origin 
+}: { 
+  venueName: string
+  origin: Origin 
+}) {
+  const fetcher = useFetcher()
+  const [isLocating, setIsLocating] = useState(false)
+  const [locationError, setLocationError] = useState<string | null>(null)
+  
+  // Show the new origin while the restaurants reload
+  const intent = fetcher.formData?.get('intent')
+  const pendingLabel = fetcher.formData?.get('label')
+  const currentOrigin: Origin = 
+    intent === 'set-location' ? 
+      typeof pendingLabel === 'string' ? 
+        { type: 'address', label: pendingLabel } : 
+        { type: 'me', label: null } :
+    intent === 'clear-location' ? { type: 'venue', label: null } : 
+    origin
+  
+  const searchNearMe = () => {
+    if (!('geolocation' in navigator)) {
+      setLocationError("Your browser can't share your location")
+      return
+    }
+    setIsLocating(true)
+    setLocationError(null)
+    navigator.geolocation.getCurrentPosition(
+      position => {
+        setIsLocating(false)
+        void fetcher.submit(
+          {
+            intent: 'set-location',
+            lat: position.coords.latitude.toString(),
+            lng: position.coords.longitude.toString(),
+          },
+          { method: 'POST' },
+        )
+      },
+      error => {
+        setIsLocating(false)
+        setLocationError(
+          error.code === error.PERMISSION_DENIED ? 
+            'Allow location access to search near you' : 
+            "We couldn't find your location"
+        )
+      },
+      { maximumAge: 1000 * 60 * 5, timeout: 1000 * 10 },
+    )
+  }
+  
+  const searchNearVenue = () => {
+    setLocationError(null)
+    void fetcher.submit({ intent: 'clear-location' }, { method: 'POST' })
+  }
+  
+  const searchNearAddress = (result: GeocodeResult) => {
+    setLocationError(null)
+    void fetcher.submit(
+      {
+        intent: 'set-location',
+        lat: result.lat.toString(),
+        lng: result.lng.toString(),
+        label: result.name,
+      },
+      { method: 'POST' },
+    )
+  }
+  
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap gap-2">
+        <Toggle
+          pressed={currentOrigin.type === 'venue'}
+          onPressedChange={(pressed) => pressed && searchNearVenue()}
+          className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+        >
+          <MapPin />
+          Near {venueName}
+        </Toggle>
+        <Toggle
+          pressed={currentOrigin.type === 'me'}
+          onPressedChange={(pressed) => pressed && searchNearMe()}
+          disabled={isLocating}
+          className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+        >
+          <LocateFixed />
+          {isLocating ? 'Finding you...' : 'Near me'}
+        </Toggle>
+        {currentOrigin.type === 'address' ? (
+          <span className="inline-flex h-10 items-center gap-2 rounded-md bg-primary px-3 text-sm font-medium text-primary-foreground">
+            <Search className="h-4 w-4" />
+            Near {currentOrigin.label}
+          </span>
+        ) : null}
+        <AddressAutocomplete onSelect={searchNearAddress} className="w-64" />
+      </div>
+      {locationError ? (
+        <p className="text-sm text-destructive">{locationError}</p>
+      ) : null}
+    </div>
+  )
+}
+
+function EventSelector({ 
+  eventId, 
+  events 
+}: { 
+  eventId: string
+  events: Array<{ id: string; name: string }>
+}) {
+  const fetcher = useFetcher()
+  
+  return (
+    <fetcher.Form 
+      method="post" 
+      onChange={(e) => fetcher.submit(e.currentTarget)}
+    >
+      <input type="hidden" name="intent" value="select-event" />
+      <label className="flex items-center gap-2 text-sm font-medium">
+        Event:
+        <select 
+          name="eventId" 
+          defaultValue={eventId}
+          className="rounded-md border border-input bg-background px-3 py-2"
+        >
+          {events.map(event => (
+            <option key={event.id} value={event.id}>
+              {event.name}
+            </option>
+          ))}
+        </select>
+      </label>
+    </fetcher.Form>
+  )
+}
+
+// Nights are "YYYY-MM-DD" strings, so format them as UTC to keep the date as-is
+const nightFormatter = new Intl.DateTimeFormat('en-US', {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  timeZone: 'UTC',
+})
+
+function NightSelector({ 
+  night, 
+  nights 
+}: { 
+  night: string
+  nights: string[] 
+}) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  
+  if (nights.length < 2) return null
+  
+  const selectNight = (value: string) => {
+    const newParams = new URLSearchParams(searchParams)
+    newParams.set('night', value)
+    setSearchParams(newParams, { 
+      preventScrollReset: true, 
+      replace: true 
+    })
+  }
+  
+  return (
+    <div className="flex flex-wrap gap-2">
+      <span className="text-sm font-medium w-16 pt-2">Night:</span>
+      <div className="flex flex-wrap gap-2 flex-1">
+        {nights.map(value => (
+          <Toggle
+            key={value}
+            pressed={night === value}
+            onPressedChange={(pressed) => pressed && selectNight(value)}
+            className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+          >
+            {nightFormatter.format(new Date(`${value}T00:00:00.000Z`))}
+          </Toggle>
+        ))}
+      </div>
     </div>
   )
 }
 
-function DinnerPlansSection({ restaurants }: { restaurants: RestaurantWithDetails[] }) {
+function DinnerPlansSection({ 
+  eventId, 
+  night,
+  restaurants,
+  hiddenCount,
+  polls
+}: { 
+  eventId: string
+  night: string
+  restaurants: RestaurantListItem[] 
+  hiddenCount: number // dinner plans that don't match the filters
+  polls: Array<{ id: string; restaurantNames: string[]; voteCount: number; closesAt: string }>
+}) {
+  // Reload attendance whenever anyone joins or leaves a group tonight
+  useLiveAttendance({ eventId, night })
+  
   return (
     <section className="space-y-4">
-      <h2 className="text-2xl font-semibold">Dinner Plans</h2>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-2xl font-semibold">Dinner Plans</h2>
+        <Button asChild variant="outline" size="sm">
+          <Link to={`/polls/new?night=${night}`}>
+            <Vote className="h-4 w-4" />
+            Start a poll
+          </Link>
+        </Button>
+      </div>
+      
+      {polls.length > 0 ? (
+        <ul className="space-y-1 text-sm">
+          {polls.map(poll => (
+            <li key={poll.id}>
+              <Link to={`/polls/${poll.id}`} className="text-primary hover:underline">
+                Vote: {poll.restaurantNames.join(' or ')}
+              </Link>
+              <span className="text-muted-foreground">
+                {' '}· {poll.voteCount} {poll.voteCount === 1 ? 'vote' : 'votes'}, closes at {poll.closesAt}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
       
       {restaurants.length > 0 ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {restaurants.map(restaurant => (
-            <RestaurantCard key={restaurant.id} restaurant={restaurant} />
+            <RestaurantCard key={restaurant.id} eventId={eventId} night={night} restaurant={restaurant} />
           ))}
         </div>
       ) : (
         <div className="h-[220px] border-2 border-dashed rounded-lg flex items-center justify-center text-muted-foreground">
-          Everyone is having dinner on their own 🥲
+          {hiddenCount > 0 
+            ? 'No dinner plans match your filters' 
+            : 'Everyone is having dinner on their own 🥲'}
         </div>
       )}
+      
+      {restaurants.length > 0 && hiddenCount > 0 ? (
+        <p className="text-sm text-muted-foreground">
+          {hiddenCount} more {hiddenCount === 1 ? "dinner plan doesn't" : "dinner plans don't"} match your filters
+        </p>
+      ) : null}
     </section>
   )
 }
 
 function RestaurantListSection({ 
+  event,
+  night,
+  dinnerPlans,
   restaurants, 
-  currentFilters 
+  nextCursor,
+  currentFilters,
+  dinnerTime,
+  cuisineOptions
 }: { 
-  restaurants: RestaurantWithDetails[]
-  currentFilters: {
-    distance?: number
-    rating?: number
-    price?: number
-  }
+  event: { id: string; venueName: string; lat: number; lng: number }
+  night: string
+  dinnerPlans: RestaurantListItem[]
+  restaurants: RestaurantListItem[]
+  nextCursor: string | null
+  currentFilters: FilterValues
+  dinnerTime: string
+  cuisineOptions: Array<{ name: string; label: string }>
 }) {
+  const location = useLocation()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const navigation = useNavigation()
+  
+  const setView = (view: FilterValues['view']) => {
+    const newParams = new URLSearchParams(searchParams)
+    if (view === 'list') {
+      newParams.delete('view')
+    } else {
+      newParams.set('view', view)
+    }
+    setSearchParams(newParams, { 
+      preventScrollReset: true, 
+      replace: true 
+    })
+  }
+  
+  const loadMoreParams = new URLSearchParams(searchParams)
+  if (nextCursor) loadMoreParams.set('cursor', nextCursor)
+  const isLoadingMore = navigation.state === 'loading' && 
+    new URLSearchParams(navigation.location.search).get('cursor') === nextCursor
+  
   return (
     <section className="space-y-4">
-      <h2 className="text-2xl font-semibold">Nearby Restaurants</h2>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-2xl font-semibold">Nearby Restaurants</h2>
+        <div className="flex gap-2">
+          {(['list', 'map'] as const).map(view => (
+            <Toggle
+              key={view}
+              pressed={currentFilters.view === view}
+              onPressedChange={(pressed) => pressed && setView(view)}
+              className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+            >
+              {view === 'list' ? <List /> : <MapIcon />}
+              {view === 'list' ? 'List' : 'Map'}
+            </Toggle>
+          ))}
+        </div>
+      </div>
       
-      <Filters currentFilters={currentFilters} />
+      {/* Searches everything nearby, not just the top restaurants */}
+      <SearchBar
+        status="idle"
+        action={location.pathname}
+        placeholder="Search by name or cuisine"
+        keepSearchParams
+      />
       
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {restaurants.map(restaurant => (
-          <RestaurantCard key={restaurant.id} restaurant={restaurant} />
-        ))}
+      <Filters 
+        currentFilters={currentFilters} 
+        dinnerTime={dinnerTime} 
+        cuisineOptions={cuisineOptions} 
+      />
+      
+      {currentFilters.view === 'map' ? (
+        // Dinner plans go on the map too, so people can see who's eating nearby
+        <RestaurantMap
+          venue={{ name: event.venueName, lat: event.lat, lng: event.lng }}
+          places={[...dinnerPlans, ...restaurants]}
+          renderPopup={restaurant => (
+            <RestaurantCard eventId={event.id} night={night} restaurant={restaurant} />
+          )}
+        />
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {restaurants.map(restaurant => (
+            <RestaurantCard key={restaurant.id} eventId={event.id} night={night} restaurant={restaurant} />
+          ))}
         
-        {restaurants.length === 0 && (
-          <div className="col-span-full h-[220px] border-2 border-dashed rounded-lg flex items-center justify-center text-muted-foreground">
-            No restaurants match your filters
-          </div>
-        )}
-      </div>
+          {restaurants.length === 0 && (
+            <div className="col-span-full h-[220px] border-2 border-dashed rounded-lg flex items-center justify-center text-muted-foreground">
+              {currentFilters.search
+                ? `No restaurants match "${currentFilters.search}"`
+                : 'No restaurants match your filters'}
+            </div>
+          )}
+        </div>
+      )}
+      
+      {nextCursor && currentFilters.view === 'list' ? (
+        <div className="flex justify-center">
+          <Button asChild variant="outline">
+            <Link
+              to={`?${loadMoreParams}`}
+              preventScrollReset
+              replace
+            >
+              {isLoadingMore ? 'Loading...' : 'Load more'}
+            </Link>
+          </Button>
+        </div>
+      ) : null}
     </section>
   )
 }
 
+type FilterValues = {
+  distance?: number
+  rating?: number // minimum
+  unrated: boolean
+  prices: Array<number | null> // null is an unknown price
+  openAtDinner: boolean
+  cuisines: string[]
+  search?: string
+  sort: Sort
+  view: 'list' | 'map'
+}
+
 function Filters({ 
-  currentFilters 
+  currentFilters,
+  dinnerTime,
+  cuisineOptions
 }: { 
-  currentFilters: {
-    distance?: number
-    rating?: number
-    price?: number
-  }
+  currentFilters: FilterValues
+  dinnerTime: string
+  cuisineOptions: Array<{ name: string; label: string }>
 }) {
   const [searchParams, setSearchParams] = useSearchParams()
   
-  const updateFilter = (key: string, value: string | null) => {
+  const updateParams = (update: (params: URLSearchParams) => void) => {
     const newParams = new URLSearchParams(searchParams)
-    
-    if (value === null) {
-      newParams.delete(key)
-    } else {
-      newParams.set(key, value)
-    }
+    // The list changes, so start from the first page again
+    newParams.delete('cursor')
+    update(newParams)
     
     setSearchParams(newParams, { 
       preventScrollReset: true, 
@@ -223,8 +1020,57 @@ function Filters({
     })
   }
   
+  const updateFilter = (key: string, value: string | null) => {
+    updateParams(params => {
+      if (value === null) {
+        params.delete(key)
+      } else {
+        params.set(key, value)
+      }
+    })
+  }
+  
+  // For filters that match any of the selected values
+  const toggleValue = (key: string, value: string, pressed: boolean) => {
+    updateParams(params => {
+      const values = params.getAll(key).filter(v => v !== value)
+      params.delete(key)
+      for (const v of pressed ? [...values, value] : values) {
+        params.append(key, v)
+      }
+    })
+  }
+  
+  // The minimum rating replaces the last one, but keeps "unrated"
+  const setMinRating = (rating: number | null) => {
+    updateParams(params => {
+      params.delete('rating')
+      if (rating) params.append('rating', rating.toString())
+      if (currentFilters.unrated) params.append('rating', UNRATED)
+    })
+  }
+  
   return (
     <div className="space-y-2">
+      {/* Sort Order */}
+      <div className="flex flex-wrap gap-2">
+        <span className="text-sm font-medium w-16 pt-2">Sort:</span>
+        <div className="flex flex-wrap gap-2 flex-1">
+          {Object.entries(sortLabels).map(([sort, label]) => (
+            <Toggle
+              key={sort}
+              pressed={currentFilters.sort === sort}
+              onPressedChange={(pressed) => 
+                pressed && updateFilter('sort', sort === 'rating' ? null : sort)
+              }
+              className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+            >
+              {label}
+            </Toggle>
+          ))}
+        </div>
+      </div>
+      
       {/* Distance Filter */}
       <div className="flex flex-wrap gap-2">
         <span className="text-sm font-medium w-16 pt-2">Distance:</span>
@@ -247,45 +1093,100 @@ function Filters({
       {/* Rating Filter */}
       <div className="flex flex-wrap gap-2">
         <span className="text-sm font-medium w-16 pt-2">Rating:</span>
-        <div className="grid grid-cols-4 gap-2 flex-1">
+        <div className="grid grid-cols-5 gap-2 flex-1">
           {[1, 2, 3, 4].map(rating => (
             <Toggle
               key={rating}
               pressed={currentFilters.rating === rating}
-              onPressedChange={(pressed) => 
-                updateFilter('rating', pressed ? rating.toString() : null)
-              }
+              onPressedChange={(pressed) => setMinRating(pressed ? rating : null)}
               className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
             >
               {'⭐'.repeat(rating)}
             </Toggle>
           ))}
+          <Toggle
+            pressed={currentFilters.unrated}
+            onPressedChange={(pressed) => toggleValue('rating', UNRATED, pressed)}
+            className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+          >
+            Unrated
+          </Toggle>
         </div>
       </div>
       
       {/* Price Filter */}
       <div className="flex flex-wrap gap-2">
         <span className="text-sm font-medium w-16 pt-2">Price:</span>
-        <div className="grid grid-cols-4 gap-2 flex-1">
+        <div className="grid grid-cols-5 gap-2 flex-1">
           {[1, 2, 3, 4].map(price => (
             <Toggle
               key={price}
-              pressed={currentFilters.price === price}
+              pressed={currentFilters.prices.includes(price)}
               onPressedChange={(pressed) => 
-                updateFilter('price', pressed ? price.toString() : null)
+                toggleValue('price', price.toString(), pressed)
               }
               className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
             >
               {'$'.repeat(price)}
             </Toggle>
           ))}
+          <Toggle
+            pressed={currentFilters.prices.includes(null)}
+            onPressedChange={(pressed) => toggleValue('price', UNKNOWN, pressed)}
+            className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+          >
+            Unknown
+          </Toggle>
+        </div>
+      </div>
+      
+      {/* Opening Hours Filter */}
+      <div className="flex flex-wrap gap-2">
+        <span className="text-sm font-medium w-16 pt-2">Open:</span>
+        <div className="flex-1">
+          <Toggle
+            pressed={currentFilters.openAtDinner}
+            onPressedChange={(pressed) => 
+              updateFilter('openAtDinner', pressed ? 'true' : null)
+            }
+            className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+          >
+            At dinner ({dinnerTime})
+          </Toggle>
         </div>
       </div>
+      
+      {/* Cuisine Filter */}
+      {cuisineOptions.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          <span className="text-sm font-medium w-16 pt-2">Cuisine:</span>
+          <div className="flex flex-wrap gap-2 flex-1">
+            {cuisineOptions.map(cuisine => (
+              <Toggle
+                key={cuisine.name}
+                pressed={currentFilters.cuisines.includes(cuisine.name)}
+                onPressedChange={(pressed) => toggleValue('cuisine', cuisine.name, pressed)}
+                className="data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+              >
+                {cuisine.label}
+              </Toggle>
+            ))}
+          </div>
+        </div>
+      ) : null}
     </div>
   )
 }
 
-function RestaurantCard({ restaurant }: { restaurant: RestaurantWithDetails }) {
+function RestaurantCard({ 
+  eventId, 
+  night,
+  restaurant 
+}: { 
+  eventId: string
+  night: string
+  restaurant: RestaurantListItem 
+}) {
   const fetcher = useFetcher()
   const isJoining = fetcher.state === 'submitting' && 
     fetcher.formData?.get('intent') === 'join'
@@ -297,7 +1198,7 @@ function RestaurantCard({ restaurant }: { restaurant: RestaurantWithDetails }) {
       <div className="relative h-40 bg-muted">
         {restaurant.photoRef ? (
           <img 
-            src={`/resources/maps/photo?photoRef=${restaurant.photoRef}`}
+            src={`/resources/maps/photo?photoRef=${encodeURIComponent(restaurant.photoRef)}`}
             alt={restaurant.name}
             className="w-full h-full object-cover"
           />
@@ -323,8 +1224,22 @@ function RestaurantCard({ restaurant }: { restaurant: RestaurantWithDetails }) {
         </div>
       </div>
       
-      <CardHeader className="pb-2">
-        <h3 className="font-bold truncate">{restaurant.name}</h3>
+      <CardHeader className="pb-2 space-y-1">
+        <h3 className="font-bold truncate">
+          <Link 
+            to={`/restaurants/${encodeURIComponent(restaurant.id)}?night=${night}`} 
+            className="hover:underline"
+          >
+            {restaurant.name}
+          </Link>
+        </h3>
+        {restaurant.cuisines.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {restaurant.cuisines.map(cuisine => (
+              <Badge key={cuisine.name} variant="outline">{cuisine.label}</Badge>
+            ))}
+          </div>
+        ) : null}
       </CardHeader>
       
       <CardContent className="pb-2 space-y-1">
@@ -341,24 +1256,87 @@ function RestaurantCard({ restaurant }: { restaurant: RestaurantWithDetails }) {
               rel="noopener noreferrer"
               className="flex items-center gap-1 text-sm text-primary hover:underline"
             >
-              <Map className="h-4 w-4" />
+              <MapIcon className="h-4 w-4" />
               <span>Directions</span>
             </Link>
           </div>
         )}
         
-        <div className="text-sm">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
           {restaurant.attendeeCount > 0 ? (
-            <span className="font-medium">{restaurant.attendeeCount} attending</span>
+            <span className="font-medium">
+              {restaurant.attendeeCount}
+              {restaurant.capacity ? `/${restaurant.capacity}` : null} attending
+            </span>
           ) : (
             <span className="text-muted-foreground">No attendees yet</span>
           )}
+          {restaurant.isFull ? (
+            <Badge variant="outline">
+              Full
+              {restaurant.waitlistCount > 0 ? ` / ${restaurant.waitlistCount} waiting` : null}
+            </Badge>
+          ) : null}
         </div>
+        
+        <DinerStack diners={restaurant.diners} />
+        
+        {restaurant.meetingPoint || restaurant.departureTime ? (
+          <div className="flex items-center gap-1 text-sm">
+            <Clock className="h-4 w-4 shrink-0" />
+            <span className="truncate">
+              {restaurant.meetingPoint ? `Meet at ${restaurant.meetingPoint}` : 'Leaving'}
+              {restaurant.departureTime ? 
+                `${restaurant.meetingPoint ? ', leaving' : ''} at ${formatTime(restaurant.departureTime)}` : 
+                null}
+            </span>
+          </div>
+        ) : null}
+        
+        {restaurant.isUserHost && restaurant.isOverReservation ? (
+          <div className="text-sm text-destructive">
+            {restaurant.attendeeCount} people are going, but the table is for {restaurant.reservation?.partySize}
+          </div>
+        ) : null}
+        
+        <div className="flex flex-wrap items-center gap-2">
+          {restaurant.reservation?.status === 'confirmed' ? (
+            <Badge variant="secondary">
+              {restaurant.reservation.time ? 
+                `Reserved for ${formatTime(restaurant.reservation.time)}` : 
+                'Reserved'}
+            </Badge>
+          ) : restaurant.reservation?.status === 'requested' ? (
+            <Badge variant="outline">Reservation requested</Badge>
+          ) : null}
+          {restaurant.isOpenAtDinner === false ? (
+            <Badge variant="outline">Closed at dinner</Badge>
+          ) : restaurant.closesAt ? (
+            <Badge variant="outline">Closes at {restaurant.closesAt}</Badge>
+          ) : null}
+          {restaurant.isClosingSoon ? (
+            <Badge variant="destructive">Closing soon</Badge>
+          ) : null}
+        </div>
+        
+        {restaurant.isUserWaitlisted ? (
+          <div className="text-sm text-muted-foreground">
+            You're #{restaurant.userWaitlistPosition} on the waitlist
+          </div>
+        ) : null}
+        
+        {restaurant.isUserHost && restaurant.dinnerGroupId ? (
+          <CapacityForm 
+            dinnerGroupId={restaurant.dinnerGroupId} 
+            maxPartySize={restaurant.maxPartySize} 
+          />
+        ) : null}
       </CardContent>
       
       <CardFooter>
         <fetcher.Form method="post" className="w-full">
-          {restaurant.isUserAttending ? (
+          <input type="hidden" name="night" value={night} />
+          {restaurant.isUserAttending || restaurant.isUserWaitlisted ? (
             <>
               <input type="hidden" name="intent" value="leave" />
               <StatusButton
@@ -368,13 +1346,19 @@ function RestaurantCard({ restaurant }: { restaurant: RestaurantWithDetails }) {
                 disabled={isLeaving}
                 className="w-full"
               >
-                {isLeaving ? 'Leaving...' : 'Leave'}
+                {isLeaving ? 'Leaving...' : 
+                  restaurant.isUserWaitlisted ? 'Leave waitlist' : 'Leave'}
               </StatusButton>
             </>
           ) : (
             <>
               <input type="hidden" name="intent" value="join" />
+              <input type="hidden" name="eventId" value={eventId} />
               <input type="hidden" name="restaurantId" value={restaurant.id} />
+              {restaurant.dinnerGroupId ? (
+                <input type="hidden" name="dinnerGroupId" value={restaurant.dinnerGroupId} />
+              ) : null}
+              <input type="hidden" name="waitlist" value={String(restaurant.isFull)} />
               <StatusButton
                 type="submit"
                 variant="default"
@@ -382,7 +1366,8 @@ function RestaurantCard({ restaurant }: { restaurant: RestaurantWithDetails }) {
                 disabled={isJoining}
                 className="w-full"
               >
-                {isJoining ? 'Joining...' : 'Join'}
+                {isJoining ? 'Joining...' : 
+                  restaurant.isFull ? 'Join waitlist' : 'Join'}
               </StatusButton>
             </>
           )}
@@ -390,4 +1375,43 @@ function RestaurantCard({ restaurant }: { restaurant: RestaurantWithDetails }) {
       </CardFooter>
     </Card>
   )
+}
+
+function CapacityForm({ 
+  dinnerGroupId, 
+  maxPartySize 
+}: { 
+  dinnerGroupId: string
+  maxPartySize: number | null 
+}) {
+  const fetcher = useFetcher()
+  const isSaving = fetcher.state !== 'idle'
+  
+  return (
+    <fetcher.Form method="post" className="flex items-center gap-2 text-sm">
+      <input type="hidden" name="intent" value="set-capacity" />
+      <input type="hidden" name="dinnerGroupId" value={dinnerGroupId} />
+      <label className="flex items-center gap-2">
+        Max party size
+        <input
+          type="number"
+          name="maxPartySize"
+          min={1}
+          max={100}
+          defaultValue={maxPartySize ?? ''}
+          placeholder="None"
+          className="w-16 rounded-md border border-input bg-background px-2 py-1"
+        />
+      </label>
+      <StatusButton
+        type="submit"
+        size="sm"
+        variant="secondary"
+        status={isSaving ? 'pending' : 'idle'}
+        disabled={isSaving}
+      >
+        Save
+      </StatusButton>
+    </fetcher.Form>
+  )
 } 
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { EventEmitter } from 'node:events'
+import { remember } from '@epic-web/remember'
+import { z } from 'zod'
+import {
+	getAllInstances,
+	getInstanceInfo,
+	getInternalInstanceDomain,
+} from './litefs.server.ts'
+
+const DinnerGroupEventSchema = z.object({
+	type: z.enum([
+		'joined',
+		'left',
+		'group-created',
+		'group-dissolved',
+		'group-updated',
+	]),
+	eventId: z.string(),
+	// "YYYY-MM-DD", same as the night search param on the restaurants page
+	night: z.string(),
+	restaurantId: z.string(),
+	dinnerGroupId: z.string(),
+	// who made the change
+	userId: z.string(),
+})
+
+const DinnerPollEventSchema = z.object({
+	type: z.enum(['poll-voted', 'poll-closed']),
+	eventId: z.string(),
+	night: z.string(),
+	pollId: z.string(),
+	userId: z.string(),
+})
+
+// Says who sent it but not what, so only attendees can read it when they reload
+const DinnerGroupMessageEventSchema = z.object({
+	type: z.literal('message-sent'),
+	eventId: z.string(),
+	night: z.string(),
+	dinnerGroupId: z.string(),
+	userId: z.string(),
+})
+
+export const AttendanceEventSchema = z.union([
+	DinnerGroupEventSchema,
+	DinnerPollEventSchema,
+	DinnerGroupMessageEventSchema,
+])
+
+export type AttendanceEvent = z.infer<typeof AttendanceEventSchema>
+
+const emitter = remember('attendance-events', () => {
+	const emitter = new EventEmitter()
+	// every open restaurants page holds a listener
+	emitter.setMaxListeners(0)
+	return emitter
+})
+
+/**
+ * Sends attendance events to clients connected to this instance
+ */
+export function emitAttendanceEvents(events: Array<AttendanceEvent>) {
+	for (const event of events) {
+		emitter.emit('attendance', event)
+	}
+}
+
+export function subscribeToAttendanceEvents(
+	listener: (event: AttendanceEvent) => void,
+) {
+	emitter.on('attendance', listener)
+	return () => {
+		emitter.off('attendance', listener)
+	}
+}
+
+/**
+ * Sends attendance events to clients connected to every instance. Clients
+ * stream events from whichever instance they happen to be connected to, so
+ * we forward them to the other instances too.
+ */
+export async function publishAttendanceEvents(events: Array<AttendanceEvent>) {
+	if (!events.length) return
+	emitAttendanceEvents(events)
+
+	const [{ currentInstance }, instances] = await Promise.all([
+		getInstanceInfo(),
+		getAllInstances(),
+	])
+	const token = process.env.INTERNAL_COMMAND_TOKEN
+	await Promise.all(
+		Object.keys(instances)
+			.filter((instance) => instance !== currentInstance)
+			.map(async (instance) => {
+				const domain = getInternalInstanceDomain(instance)
+				try {
+					const response = await fetch(
+						`${domain}/resources/attendance-events`,
+						{
+							method: 'POST',
+							headers: {
+								Authorization: `Bearer ${token}`,
+								'Content-Type': 'application/json',
+							},
+							body: JSON.stringify(events),
+						},
+					)
+					if (!response.ok) {
+						throw new Error(`${response.status} ${response.statusText}`)
+					}
+				} catch (error) {
+					// a missed update just means stale counts until the next one
+					console.warn(
+						`Failed to forward attendance events to ${instance}`,
+						error,
+					)
+				}
+			}),
+	)
+}
@@ -146,6 +146,29 @@ export const cache: CachifiedCache = {
 	},
 }
 
+/**
+ * Checks the in-memory cache before SQLite, so hot keys skip the database while
+ * values still survive restarts and are shared between instances
+ */
+export const lruAndSqliteCache = {
+	name: 'app-memory-and-sqlite-cache',
+	async get(key) {
+		const memoryEntry = lruCache.get(key)
+		if (memoryEntry) return memoryEntry
+		const entry = await cache.get(key)
+		if (entry) lruCache.set(key, entry)
+		return entry
+	},
+	async set(key, entry) {
+		lruCache.set(key, entry)
+		await cache.set(key, entry)
+	},
+	async delete(key) {
+		lruCache.delete(key)
+		await cache.delete(key)
+	},
+} satisfies Cache
+
 export async function getAllCacheKeys(limit: number) {
 	return {
 		sqlite: cacheDb
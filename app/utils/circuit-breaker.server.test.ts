@@ -0,0 +1,53 @@
+import { afterEach, expect, test, vi } from 'vitest'
+import { CircuitBreaker, CircuitOpenError } from './circuit-breaker.server.ts'
+
+afterEach(() => {
+	vi.useRealTimers()
+})
+
+const fail = () => Promise.reject(new Error('Service unavailable'))
+const succeed = () => Promise.resolve('ok')
+
+test('opens after the failure threshold and fails fast', async () => {
+	const breaker = new CircuitBreaker('test', {
+		failureThreshold: 2,
+		resetTimeout: 1000,
+	})
+	await expect(breaker.run(fail)).rejects.toThrow('Service unavailable')
+	await expect(breaker.run(fail)).rejects.toThrow('Service unavailable')
+
+	const fn = vi.fn(succeed)
+	await expect(breaker.run(fn)).rejects.toBeInstanceOf(CircuitOpenError)
+	expect(fn).not.toHaveBeenCalled()
+	expect(breaker.state).toBe('open')
+})
+
+test('a success resets the failure count', async () => {
+	const breaker = new CircuitBreaker('test', {
+		failureThreshold: 2,
+		resetTimeout: 1000,
+	})
+	await expect(breaker.run(fail)).rejects.toThrow()
+	await expect(breaker.run(succeed)).resolves.toBe('ok')
+	await expect(breaker.run(fail)).rejects.toThrow()
+
+	expect(breaker.state).toBe('closed')
+})
+
+test('lets one trial call through after the reset timeout', async () => {
+	vi.useFakeTimers()
+	const breaker = new CircuitBreaker('test', {
+		failureThreshold: 1,
+		resetTimeout: 1000,
+	})
+	await expect(breaker.run(fail)).rejects.toThrow()
+	vi.advanceTimersByTime(1000)
+	expect(breaker.state).toBe('half-open')
+
+	await expect(breaker.run(fail)).rejects.toThrow('Service unavailable')
+	expect(breaker.state).toBe('open')
+
+	vi.advanceTimersByTime(1000)
+	await expect(breaker.run(succeed)).resolves.toBe('ok')
+	expect(breaker.state).toBe('closed')
+})
@@ -0,0 +1,67 @@
+export class CircuitOpenError extends Error {
+	constructor(name: string) {
+		super(`The ${name} circuit is open`)
+		this.name = 'CircuitOpenError'
+	}
+}
+
+/**
+ * Stops calling something that keeps failing. After `failureThreshold`
+ * failures in a row the circuit opens and calls fail fast with a
+ * CircuitOpenError. Once `resetTimeout` has passed, one call is let through to
+ * test the water: if it succeeds the circuit closes again, if not it stays open
+ * for another `resetTimeout`.
+ */
+export class CircuitBreaker {
+	private name: string
+	private failureThreshold: number
+	private resetTimeout: number
+	private failures = 0
+	private openedAt: number | null = null
+	private isTrialInFlight = false
+
+	constructor(
+		name: string,
+		{
+			failureThreshold,
+			resetTimeout,
+		}: {
+			failureThreshold: number
+			resetTimeout: number // in milliseconds
+		},
+	) {
+		this.name = name
+		this.failureThreshold = failureThreshold
+		this.resetTimeout = resetTimeout
+	}
+
+	get state() {
+		if (this.openedAt === null) return 'closed'
+		return Date.now() - this.openedAt >= this.resetTimeout
+			? 'half-open'
+			: 'open'
+	}
+
+	async run<Value>(fn: () => Promise<Value>): Promise<Value> {
+		const state = this.state
+		if (state === 'open' || (state === 'half-open' && this.isTrialInFlight)) {
+			throw new CircuitOpenError(this.name)
+		}
+
+		this.isTrialInFlight = state === 'half-open'
+		try {
+			const value = await fn()
+			this.failures = 0
+			this.openedAt = null
+			return value
+		} catch (error) {
+			this.failures++
+			if (state === 'half-open' || this.failures >= this.failureThreshold) {
+				this.openedAt = Date.now()
+			}
+			throw error
+		} finally {
+			if (state === 'half-open') this.isTrialInFlight = false
+		}
+	}
+}
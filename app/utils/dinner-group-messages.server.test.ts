@@ -0,0 +1,103 @@
+import { expect, test } from 'vitest'
+import { prisma } from '#app/utils/db.server.ts'
+import { createEvent, createRestaurant, createUser } from '#tests/db-utils.ts'
+import {
+	getDinnerGroupMessages,
+	sendDinnerGroupMessage,
+} from './dinner-group-messages.server.ts'
+import { joinDinnerGroup, leaveDinnerGroup } from './restaurants.server.ts'
+
+const date = new Date('2025-03-20T00:00:00.000Z')
+
+async function setupChat() {
+	const event = await prisma.event.create({ data: createEvent(date) })
+	const restaurant = await prisma.restaurant.create({
+		data: createRestaurant(),
+	})
+	const [host, guest, outsider] = await Promise.all(
+		Array.from({ length: 3 }, () =>
+			prisma.user.create({ select: { id: true }, data: createUser() }),
+		),
+	)
+	const join = (userId: string) =>
+		joinDinnerGroup({
+			userId,
+			eventId: event.id,
+			restaurantId: restaurant.id,
+			date,
+		})
+	const joined = await join(host!.id)
+	if (joined.status !== 'joined') throw new Error('Could not join')
+	await join(guest!.id)
+	return {
+		host: host!,
+		guest: guest!,
+		outsider: outsider!,
+		dinnerGroupId: joined.dinnerGroupId,
+	}
+}
+
+test('only people going can read and send messages', async () => {
+	const { host, guest, outsider, dinnerGroupId } = await setupChat()
+	await prisma.user.update({
+		where: { id: guest.id },
+		data: { anonymousDiner: true },
+	})
+
+	expect(
+		await sendDinnerGroupMessage({
+			userId: guest.id,
+			dinnerGroupId,
+			content: 'Running **10 minutes** late',
+		}),
+	).toMatchObject({ status: 'sent' })
+	expect(
+		await sendDinnerGroupMessage({
+			userId: outsider.id,
+			dinnerGroupId,
+			content: 'Can I come?',
+		}),
+	).toEqual({ status: 'conflict', reason: 'not-attending' })
+
+	expect(
+		await getDinnerGroupMessages({ userId: outsider.id, dinnerGroupId }),
+	).toBeNull()
+	const messages = await getDinnerGroupMessages({
+		userId: host.id,
+		dinnerGroupId,
+	})
+	// anonymous diners stay anonymous in the chat
+	expect(messages).toEqual([
+		expect.objectContaining({
+			content: 'Running **10 minutes** late',
+			author: { isAnonymous: true },
+			isOwn: false,
+		}),
+	])
+})
+
+test('messages are deleted when the group dissolves', async () => {
+	const { host, guest, dinnerGroupId } = await setupChat()
+	await sendDinnerGroupMessage({
+		userId: host.id,
+		dinnerGroupId,
+		content: 'See you @everyone',
+	})
+
+	await leaveDinnerGroup({ userId: host.id, date })
+	expect(
+		await prisma.dinnerGroupMessage.count({ where: { dinnerGroupId } }),
+	).toBe(1)
+
+	await leaveDinnerGroup({ userId: guest.id, date })
+	expect(
+		await prisma.dinnerGroupMessage.count({ where: { dinnerGroupId } }),
+	).toBe(0)
+	expect(
+		await sendDinnerGroupMessage({
+			userId: guest.id,
+			dinnerGroupId,
+			content: 'Hello?',
+		}),
+	).toEqual({ status: 'conflict', reason: 'group-dissolved' })
+})
@@ -0,0 +1,114 @@
+import { Prisma } from '@prisma/client/index.js'
+import { publishAttendanceEvents } from './attendance-events.server.ts'
+import { prisma } from './db.server.ts'
+import { dateToNight } from './events.server.ts'
+import { ATTENDING, dinerSelect, toDinerProfile } from './restaurants.server.ts'
+
+// the thread is for the night itself, so older messages aren't worth loading
+const MAX_MESSAGES = 200
+
+export type MessageConflict =
+	| 'group-dissolved' // the group the user saw no longer exists
+	| 'not-attending' // only people attending the group can chat in it
+
+export type MessageResult =
+	| { status: 'sent'; messageId: string }
+	| { status: 'conflict'; reason: MessageConflict }
+
+/**
+ * Whether the user is attending (rather than waiting on) a dinner group, and
+ * so can see and send its messages
+ */
+export async function isAttendingDinnerGroup(
+	userId: string,
+	dinnerGroupId: string,
+) {
+	const attendee = await prisma.attendee.findFirst({
+		where: { userId, dinnerGroupId, status: ATTENDING },
+		select: { id: true },
+	})
+	return Boolean(attendee)
+}
+
+/**
+ * Gets a dinner group's messages, oldest first, or null if the user isn't
+ * attending it
+ */
+export async function getDinnerGroupMessages({
+	userId,
+	dinnerGroupId,
+}: {
+	userId: string
+	dinnerGroupId: string
+}) {
+	if (!(await isAttendingDinnerGroup(userId, dinnerGroupId))) return null
+
+	const messages = await prisma.dinnerGroupMessage.findMany({
+		where: { dinnerGroupId },
+		select: {
+			id: true,
+			content: true,
+			createdAt: true,
+			user: { select: dinerSelect },
+		},
+		orderBy: { createdAt: 'desc' },
+		take: MAX_MESSAGES,
+	})
+
+	return messages.reverse().map(({ user, ...message }) => ({
+		...message,
+		// anonymous diners stay anonymous in the chat too
+		author: toDinerProfile(user, userId),
+		isOwn: user.id === userId,
+	}))
+}
+
+/**
+ * Posts a message to a dinner group's chat and lets the others in it know
+ */
+export async function sendDinnerGroupMessage({
+	userId,
+	dinnerGroupId,
+	content,
+}: {
+	userId: string
+	dinnerGroupId: string
+	content: string
+}): Promise<MessageResult> {
+	// checked and posted together, so the group can't break up in between
+	const sent = await prisma.$transaction(
+		async (tx) => {
+			const dinnerGroup = await tx.dinnerGroup.findUnique({
+				where: { id: dinnerGroupId },
+				select: { id: true, eventId: true, date: true },
+			})
+			if (!dinnerGroup) return 'group-dissolved' as const
+			const attendee = await tx.attendee.findFirst({
+				where: { userId, dinnerGroupId, status: ATTENDING },
+				select: { id: true },
+			})
+			if (!attendee) return 'not-attending' as const
+
+			const message = await tx.dinnerGroupMessage.create({
+				select: { id: true },
+				data: { dinnerGroupId, userId, content },
+			})
+			return { ...dinnerGroup, messageId: message.id }
+		},
+		{ isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+	)
+	if (typeof sent === 'string') {
+		return { status: 'conflict', reason: sent }
+	}
+
+	await publishAttendanceEvents([
+		{
+			type: 'message-sent',
+			eventId: sent.eventId,
+			night: dateToNight(sent.date),
+			dinnerGroupId,
+			userId,
+		},
+	])
+	return { status: 'sent', messageId: sent.messageId }
+}
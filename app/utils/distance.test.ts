@@ -0,0 +1,15 @@
+import { expect, test } from 'vitest'
+import { getDistanceInMeters } from './distance.ts'
+
+test('measures the distance between two points in meters', () => {
+	const venue = { lat: 40.7596, lng: -111.8868 }
+
+	expect(getDistanceInMeters(venue, venue)).toBe(0)
+	// a degree of latitude is about 111km anywhere
+	expect(
+		Math.round(getDistanceInMeters(venue, { lat: 41.7596, lng: -111.8868 })),
+	).toBe(111195)
+	expect(getDistanceInMeters(venue, { lat: 40.76, lng: -111.89 })).toBe(
+		getDistanceInMeters({ lat: 40.76, lng: -111.89 }, venue),
+	)
+})
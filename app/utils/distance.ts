@@ -0,0 +1,18 @@
+/**
+ * The distance between two points in meters, along the Earth's surface. See
+ * https://en.wikipedia.org/wiki/Haversine_formula
+ */
+export function getDistanceInMeters(
+	from: { lat: number; lng: number },
+	to: { lat: number; lng: number },
+) {
+	const R = 6371e3 // Earth's radius in meters
+	const dLat = (to.lat - from.lat) * (Math.PI / 180)
+	const dLng = (to.lng - from.lng) * (Math.PI / 180)
+	const a =
+		Math.sin(dLat / 2) ** 2 +
+		Math.cos(from.lat * (Math.PI / 180)) *
+			Math.cos(to.lat * (Math.PI / 180)) *
+			Math.sin(dLng / 2) ** 2
+	return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
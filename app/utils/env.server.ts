@@ -12,8 +12,22 @@ const schema = z.object({
 	SENTRY_DSN: z.string().optional(),
 	// Required for sending emails
 	RESEND_API_KEY: z.string(),
-	// Required for Google Places API
-	GOOGLE_PLACES_API_KEY: z.string(),
+	// Where restaurant data comes from, defaults to google
+	PLACES_PROVIDER: z.enum(['google', 'overpass', 'static']).optional(),
+	// Required for the google places provider
+	GOOGLE_PLACES_API_KEY: z.string().optional(),
+	// How many searches of up to 20 restaurants to cover an area with, from 1
+	// to 8 (the default)
+	GOOGLE_PLACES_MAX_SEARCHES: z
+		.enum(['1', '2', '3', '4', '5', '6', '7', '8'])
+		.optional(),
+	// Defaults to the public https://overpass-api.de instance
+	OVERPASS_API_URL: z.string().url().optional(),
+	// The overpass provider geocodes with Nominatim, defaults to the public
+	// https://nominatim.openstreetmap.org instance
+	NOMINATIM_API_URL: z.string().url().optional(),
+	// Required for the static places provider, the path to a JSON file
+	PLACES_STATIC_FILE: z.string().optional(),
 	// If you plan to use GitHub auth, remove the .optional()
 	GITHUB_CLIENT_ID: z.string().optional(),
 	GITHUB_CLIENT_SECRET: z.string().optional(),
@@ -0,0 +1,15 @@
+import { expect, test } from 'vitest'
+import { getVenueTime } from './events.server.ts'
+
+test('gets the moment of a time at the venue on a night', () => {
+	expect(getVenueTime('2025-03-20', '18:30', 'America/Denver')).toEqual(
+		new Date('2025-03-21T00:30:00.000Z'),
+	)
+	// after the clocks go forward that morning
+	expect(getVenueTime('2025-03-09', '18:30', 'America/Denver')).toEqual(
+		new Date('2025-03-10T00:30:00.000Z'),
+	)
+	expect(getVenueTime('2025-07-01', '19:00', 'Asia/Kolkata')).toEqual(
+		new Date('2025-07-01T13:30:00.000Z'),
+	)
+})
@@ -0,0 +1,132 @@
+import * as cookie from 'cookie'
+import { prisma } from './db.server.ts'
+import { getZonedParts } from './opening-hours.ts'
+
+const cookieName = 'en_event'
+
+export function getActiveEventId(request: Request) {
+	const cookieHeader = request.headers.get('cookie')
+	const parsed = cookieHeader ? cookie.parse(cookieHeader)[cookieName] : null
+	return parsed || null
+}
+
+export function setActiveEventId(eventId: string) {
+	return cookie.serialize(cookieName, eventId, {
+		path: '/',
+		maxAge: 31536000,
+	})
+}
+
+/**
+ * Gets the event the user picked. If they haven't picked one (or it has since
+ * been deleted) this falls back to the event that is happening now or next,
+ * and then to the most recent event.
+ */
+export async function getActiveEvent(request: Request) {
+	const eventId = getActiveEventId(request)
+	if (eventId) {
+		const event = await prisma.event.findUnique({ where: { id: eventId } })
+		if (event) return event
+	}
+
+	const today = new Date()
+	today.setUTCHours(0, 0, 0, 0)
+	const upcomingEvent = await prisma.event.findFirst({
+		where: { endDate: { gte: today } },
+		orderBy: { startDate: 'asc' },
+	})
+	if (upcomingEvent) return upcomingEvent
+
+	return prisma.event.findFirst({ orderBy: { startDate: 'desc' } })
+}
+
+export type ActiveEvent = NonNullable<
+	Awaited<ReturnType<typeof getActiveEvent>>
+>
+
+export async function getEvent(eventId: string) {
+	return prisma.event.findUnique({ where: { id: eventId } })
+}
+
+export async function getEvents() {
+	return prisma.event.findMany({
+		select: {
+			id: true,
+			name: true,
+			venueName: true,
+			startDate: true,
+			endDate: true,
+		},
+		orderBy: { startDate: 'desc' },
+	})
+}
+
+/**
+ * Gets the "YYYY-MM-DD" calendar date a moment falls on in a timezone
+ */
+export function getCalendarDate(date: Date, timeZone: string) {
+	// the en-CA locale formats dates as YYYY-MM-DD
+	return new Intl.DateTimeFormat('en-CA', {
+		timeZone,
+		year: 'numeric',
+		month: '2-digit',
+		day: '2-digit',
+	}).format(date)
+}
+
+/**
+ * Nights are passed around as "YYYY-MM-DD" strings and stored as midnight UTC
+ */
+export function nightToDate(night: string) {
+	return new Date(`${night}T00:00:00.000Z`)
+}
+
+export function dateToNight(date: Date) {
+	return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Gets the moment it's an "HH:MM" time in the venue's timezone on a night
+ */
+export function getVenueTime(night: string, time: string, timeZone: string) {
+	const [hour = 0, minute = 0] = time.split(':').map(Number)
+	// as if the venue were on UTC, then shifted by its offset at that moment
+	const wallClock = nightToDate(night).getTime() + (hour * 60 + minute) * 60_000
+	const guess = wallClock - getTimeZoneOffset(wallClock, timeZone)
+	// around a DST change the offset at the real moment can differ
+	return new Date(wallClock - getTimeZoneOffset(guess, timeZone))
+}
+
+function getTimeZoneOffset(timestamp: number, timeZone: string) {
+	const { year, month, day, hour, minute } = getZonedParts(timestamp, timeZone)
+	const local = Date.UTC(year, month - 1, day, hour, minute)
+	return local - Math.floor(timestamp / 60_000) * 60_000
+}
+
+export function getEventNights(event: { startDate: Date; endDate: Date }) {
+	const nights: Array<string> = []
+	const night = new Date(event.startDate)
+	while (night <= event.endDate) {
+		nights.push(dateToNight(night))
+		night.setUTCDate(night.getUTCDate() + 1)
+	}
+	return nights
+}
+
+/**
+ * Picks the night to show when the user hasn't chosen one: tonight at the
+ * venue while the event is on, otherwise its first (or, once it's over, last)
+ * night.
+ */
+export function getDefaultNight(event: {
+	startDate: Date
+	endDate: Date
+	timezone: string
+}) {
+	const nights = getEventNights(event)
+	const tonight = getCalendarDate(new Date(), event.timezone)
+	const firstNight = nights[0]
+	const lastNight = nights.at(-1)
+	if (!firstNight || !lastNight || nights.includes(tonight)) return tonight
+	return tonight < firstNight ? firstNight : lastNight
+}
@@ -0,0 +1,33 @@
+import { cachified, lruAndSqliteCache } from './cache.server.ts'
+import { decodeGeohash, encodeGeohash } from './geohash.ts'
+import { getPlacesProvider } from './places.server.ts'
+
+const GEOCODE_TTL = 1000 * 60 * 60 * 24 * 7 // 7 days, landmarks don't move much
+const GEOCODE_SWR = 1000 * 60 * 60 * 24 * 30 // 30 days
+// Results depend on where they're biased towards, so they're cached per
+// geohash cell of about 5km
+const GEOCODE_PRECISION = 5
+
+/**
+ * Finds addresses and landmarks matching a query near a point, with the
+ * places provider
+ */
+export async function geocode(
+	query: string,
+	near: { lat: number; lng: number },
+) {
+	const search = query.trim().replace(/\s+/g, ' ')
+	const geohash = encodeGeohash(near.lat, near.lng, GEOCODE_PRECISION)
+	// bias towards the cell so everything in it shares the cached results
+	const { center } = decodeGeohash(geohash)
+
+	return cachified({
+		key: `geocode:${geohash}:${search.toLowerCase()}`,
+		cache: lruAndSqliteCache,
+		ttl: GEOCODE_TTL,
+		swr: GEOCODE_SWR,
+		getFreshValue: () =>
+			getPlacesProvider().geocode({ query: search, ...center }),
+		checkValue: (value: unknown) => Array.isArray(value),
+	})
+}
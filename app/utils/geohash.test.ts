@@ -0,0 +1,28 @@
+import { expect, test } from 'vitest'
+import { decodeGeohash, encodeGeohash } from './geohash.ts'
+
+test('encodes a point', () => {
+	// the example from https://en.wikipedia.org/wiki/Geohash
+	expect(encodeGeohash(42.605, -5.603, 5)).toBe('ezs42')
+	expect(encodeGeohash(40.7596, -111.8868, 7)).toBe('9x0rvun')
+})
+
+test('nearby points share a prefix', () => {
+	expect(encodeGeohash(40.7596, -111.8868, 6)).toBe(
+		encodeGeohash(40.7601, -111.8872, 6),
+	)
+})
+
+test('decodes to the bounds of the cell', () => {
+	const cell = decodeGeohash('ezs42')
+
+	expect(cell.south).toBeLessThanOrEqual(42.605)
+	expect(cell.north).toBeGreaterThanOrEqual(42.605)
+	expect(cell.west).toBeLessThanOrEqual(-5.603)
+	expect(cell.east).toBeGreaterThanOrEqual(-5.603)
+	expect(encodeGeohash(cell.center.lat, cell.center.lng, 5)).toBe('ezs42')
+})
+
+test('throws on invalid geohashes', () => {
+	expect(() => decodeGeohash('ezs4a')).toThrow('Invalid geohash: ezs4a')
+})
@@ -0,0 +1,68 @@
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz'
+
+/**
+ * Encodes a point as a geohash. Nearby points share a prefix, and each extra
+ * character makes the cell smaller: 6 characters is about 1.2km by 0.6km and 7
+ * is about 150m square. See https://en.wikipedia.org/wiki/Geohash
+ */
+export function encodeGeohash(lat: number, lng: number, precision: number) {
+	const latRange = [-90, 90]
+	const lngRange = [-180, 180]
+	let geohash = ''
+	let bits = 0
+	let bitCount = 0
+	// bits alternate between longitude and latitude, starting with longitude
+	let isLng = true
+	while (geohash.length < precision) {
+		const range = isLng ? lngRange : latRange
+		const value = isLng ? lng : lat
+		const mid = (range[0]! + range[1]!) / 2
+		bits <<= 1
+		if (value >= mid) {
+			bits |= 1
+			range[0] = mid
+		} else {
+			range[1] = mid
+		}
+		isLng = !isLng
+		if (++bitCount === 5) {
+			geohash += BASE32[bits]
+			bits = 0
+			bitCount = 0
+		}
+	}
+	return geohash
+}
+
+/**
+ * Gets the bounds of a geohash's cell
+ */
+export function decodeGeohash(geohash: string) {
+	const latRange = [-90, 90]
+	const lngRange = [-180, 180]
+	let isLng = true
+	for (const char of geohash) {
+		const index = BASE32.indexOf(char)
+		if (index === -1) throw new Error(`Invalid geohash: ${geohash}`)
+		for (let bit = 4; bit >= 0; bit--) {
+			const range = isLng ? lngRange : latRange
+			const mid = (range[0]! + range[1]!) / 2
+			if ((index >> bit) & 1) {
+				range[0] = mid
+			} else {
+				range[1] = mid
+			}
+			isLng = !isLng
+		}
+	}
+	return {
+		south: latRange[0]!,
+		north: latRange[1]!,
+		west: lngRange[0]!,
+		east: lngRange[1]!,
+		center: {
+			lat: (latRange[0]! + latRange[1]!) / 2,
+			lng: (lngRange[0]! + lngRange[1]!) / 2,
+		},
+	}
+}
@@ -0,0 +1,52 @@
+import * as cookie from 'cookie'
+import { expect, test } from 'vitest'
+import { getUserLocation, setUserLocation } from './location.server.ts'
+
+function requestWithCookie(setCookieHeader: string) {
+	const { en_location } = cookie.parse(setCookieHeader)
+	return new Request('https://example.com', {
+		headers: { cookie: cookie.serialize('en_location', en_location ?? '') },
+	})
+}
+
+test('round trips a rounded location', () => {
+	const request = requestWithCookie(
+		setUserLocation({ lat: 40.762345678, lng: -111.891234567, label: null }),
+	)
+
+	expect(getUserLocation(request)).toEqual({
+		lat: 40.7623,
+		lng: -111.8912,
+		label: null,
+	})
+})
+
+test('keeps the label of a picked address', () => {
+	const label = 'Salt Palace, 100 S West Temple St'
+	const request = requestWithCookie(
+		setUserLocation({ lat: 40.7596, lng: -111.8968, label }),
+	)
+
+	expect(getUserLocation(request)).toEqual({
+		lat: 40.7596,
+		lng: -111.8968,
+		label,
+	})
+})
+
+test('expires after a few hours', () => {
+	expect(setUserLocation({ lat: 40, lng: -111, label: null })).toContain(
+		'Max-Age=14400',
+	)
+	expect(setUserLocation(null)).toContain('Max-Age=-1')
+})
+
+test('ignores locations it cannot parse', () => {
+	for (const value of ['', 'nope', '40.7', '91,0', '0,181', 'NaN,NaN']) {
+		const request = new Request('https://example.com', {
+			headers: { cookie: cookie.serialize('en_location', value) },
+		})
+		expect(getUserLocation(request)).toBeNull()
+	}
+	expect(getUserLocation(new Request('https://example.com'))).toBeNull()
+})
@@ -0,0 +1,51 @@
+import * as cookie from 'cookie'
+
+const cookieName = 'en_location'
+// People move around during an event, so don't hold on to it for long
+const maxAge = 60 * 60 * 4 // 4 hours
+
+export type UserLocation = {
+	lat: number
+	lng: number
+	// the address or landmark they picked, or null if it's where they are
+	label: string | null
+}
+
+/**
+ * Gets the location the user shared from their browser for "near me"
+ * searches, or the address they picked to search near, if they did recently
+ */
+export function getUserLocation(request: Request): UserLocation | null {
+	const cookieHeader = request.headers.get('cookie')
+	const parsed = cookieHeader ? cookie.parse(cookieHeader)[cookieName] : null
+	if (!parsed) return null
+
+	const [latValue, lngValue, ...labelParts] = parsed.split(',')
+	const lat = Number(latValue)
+	const lng = Number(lngValue)
+	if (
+		!latValue ||
+		!lngValue ||
+		!(Math.abs(lat) <= 90) ||
+		!(Math.abs(lng) <= 180)
+	) {
+		return null
+	}
+	return { lat, lng, label: labelParts.join(',') || null }
+}
+
+/**
+ * Stores the user's location, or clears it to search near the venue again.
+ * It's rounded to about 10 meters, which is plenty for finding dinner.
+ */
+export function setUserLocation(location: UserLocation | null) {
+	if (!location) {
+		return cookie.serialize(cookieName, '', { path: '/', maxAge: -1 })
+	}
+	const value = [
+		location.lat.toFixed(4),
+		location.lng.toFixed(4),
+		...(location.label ? [location.label] : []),
+	].join(',')
+	return cookie.serialize(cookieName, value, { path: '/', maxAge })
+}
@@ -0,0 +1,51 @@
+import { expect, test } from 'vitest'
+import { parseMarkdown, parseMarkdownInline } from './markdown.ts'
+
+test('parses paragraphs, line breaks and lists', () => {
+	expect(
+		parseMarkdown('Running late\nsorry!\n\n- order for me\n- the tacos'),
+	).toEqual([
+		{
+			type: 'paragraph',
+			lines: [
+				[{ type: 'text', text: 'Running late' }],
+				[{ type: 'text', text: 'sorry!' }],
+			],
+		},
+		{
+			type: 'list',
+			items: [
+				[{ type: 'text', text: 'order for me' }],
+				[{ type: 'text', text: 'the tacos' }],
+			],
+		},
+	])
+})
+
+test('parses bold, italics, code, links and mentions', () => {
+	expect(
+		parseMarkdownInline(
+			'**10 min** late, _sorry_ @Kody! Table `42`, [map](https://maps.example.com/a)',
+		),
+	).toEqual([
+		{ type: 'strong', children: [{ type: 'text', text: '10 min' }] },
+		{ type: 'text', text: ' late, ' },
+		{ type: 'emphasis', children: [{ type: 'text', text: 'sorry' }] },
+		{ type: 'text', text: ' ' },
+		{ type: 'mention', username: 'kody' },
+		{ type: 'text', text: '! Table ' },
+		{ type: 'code', text: '42' },
+		{ type: 'text', text: ', ' },
+		{
+			type: 'link',
+			href: 'https://maps.example.com/a',
+			children: [{ type: 'text', text: 'map' }],
+		},
+	])
+})
+
+test('leaves things that only look like markdown alone', () => {
+	const text =
+		'email kody@example.com about snake_case_names, 2*3*4 and [this](javascript:alert(1))'
+	expect(parseMarkdownInline(text)).toEqual([{ type: 'text', text }])
+})
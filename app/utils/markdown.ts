@@ -0,0 +1,96 @@
+/**
+ * Just enough markdown for chat messages: paragraphs and line breaks, bulleted
+ * lists, **bold**, *italics*, `code`, [links](https://example.com) and
+ * @username mentions. Anything else stays as plain text, and there's no HTML,
+ * so it's safe to render whatever people type.
+ */
+
+export type MarkdownInline =
+	| { type: 'text'; text: string }
+	| { type: 'strong'; children: Array<MarkdownInline> }
+	| { type: 'emphasis'; children: Array<MarkdownInline> }
+	| { type: 'code'; text: string }
+	| { type: 'link'; href: string; children: Array<MarkdownInline> }
+	| { type: 'mention'; username: string }
+
+export type MarkdownBlock =
+	// each line of a paragraph, rendered with line breaks between them
+	| { type: 'paragraph'; lines: Array<Array<MarkdownInline>> }
+	| { type: 'list'; items: Array<Array<MarkdownInline>> }
+
+const inlinePattern = new RegExp(
+	[
+		/`([^`]+)`/.source,
+		/\*\*(.+?)\*\*/.source,
+		// not in the middle of a word, like snake_case or 2*3*4
+		/(?<!\w)\*(?!\s)(.+?)(?<!\s)\*(?!\w)/.source,
+		/(?<!\w)_(?!\s)(.+?)(?<!\s)_(?!\w)/.source,
+		// only web links, so nobody can sneak in a javascript: URL
+		/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/.source,
+		// not in an email address
+		/(?<![\w.@])@(\w+)/.source,
+	].join('|'),
+	'g',
+)
+
+const listItemPattern = /^\s*[-*]\s+(.*)$/
+
+export function parseMarkdownInline(text: string): Array<MarkdownInline> {
+	const nodes: Array<MarkdownInline> = []
+	let lastIndex = 0
+	for (const match of text.matchAll(inlinePattern)) {
+		if (match.index > lastIndex) {
+			nodes.push({ type: 'text', text: text.slice(lastIndex, match.index) })
+		}
+		const [, code, strong, asterisks, underscores, linkText, href, username] =
+			match
+		if (code !== undefined) {
+			nodes.push({ type: 'code', text: code })
+		} else if (strong !== undefined) {
+			nodes.push({ type: 'strong', children: parseMarkdownInline(strong) })
+		} else if (asterisks !== undefined || underscores !== undefined) {
+			nodes.push({
+				type: 'emphasis',
+				children: parseMarkdownInline(asterisks ?? underscores ?? ''),
+			})
+		} else if (linkText !== undefined && href !== undefined) {
+			nodes.push({
+				type: 'link',
+				href,
+				children: parseMarkdownInline(linkText),
+			})
+		} else if (username !== undefined) {
+			nodes.push({ type: 'mention', username: username.toLowerCase() })
+		}
+		lastIndex = match.index + match[0].length
+	}
+	if (lastIndex < text.length) {
+		nodes.push({ type: 'text', text: text.slice(lastIndex) })
+	}
+	return nodes
+}
+
+export function parseMarkdown(content: string): Array<MarkdownBlock> {
+	const blocks: Array<MarkdownBlock> = []
+	let current: MarkdownBlock | null = null
+	for (const line of content.replace(/\r\n?/g, '\n').split('\n')) {
+		const listItem = listItemPattern.exec(line)
+		if (!line.trim()) {
+			// a blank line ends the paragraph or list
+			current = null
+		} else if (listItem) {
+			if (current?.type !== 'list') {
+				current = { type: 'list', items: [] }
+				blocks.push(current)
+			}
+			current.items.push(parseMarkdownInline(listItem[1] ?? ''))
+		} else {
+			if (current?.type !== 'paragraph') {
+				current = { type: 'paragraph', lines: [] }
+				blocks.push(current)
+			}
+			current.lines.push(parseMarkdownInline(line.trim()))
+		}
+	}
+	return blocks
+}
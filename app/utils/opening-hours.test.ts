@@ -0,0 +1,101 @@
+import { expect, test } from 'vitest'
+import {
+	formatOpeningTime,
+	getDinnerPeriod,
+	getLocalTime,
+	getMinutesUntilClose,
+	parseOpeningHours,
+} from './opening-hours.ts'
+
+// open 5pm to 9pm Tuesday to Saturday, and until 1am on Friday and Saturday
+const openingHours = {
+	periods: [
+		{
+			open: { day: 2, hour: 17, minute: 0 },
+			close: { day: 2, hour: 21, minute: 0 },
+		},
+		{
+			open: { day: 3, hour: 17, minute: 0 },
+			close: { day: 3, hour: 21, minute: 0 },
+		},
+		{
+			open: { day: 4, hour: 17, minute: 0 },
+			close: { day: 4, hour: 21, minute: 0 },
+		},
+		{
+			open: { day: 5, hour: 17, minute: 0 },
+			close: { day: 6, hour: 1, minute: 0 },
+		},
+		{
+			open: { day: 6, hour: 17, minute: 0 },
+			close: { day: 0, hour: 1, minute: 0 },
+		},
+	],
+}
+
+test('a restaurant is open at dinner if it is open for the whole window', () => {
+	expect(
+		getDinnerPeriod(openingHours, { day: 2, start: '18:00', end: '20:00' }),
+	).toEqual(openingHours.periods[0])
+	expect(
+		getDinnerPeriod(openingHours, { day: 2, start: '19:00', end: '22:00' }),
+	).toBeNull()
+	// closed on Mondays
+	expect(
+		getDinnerPeriod(openingHours, { day: 1, start: '18:00', end: '20:00' }),
+	).toBeNull()
+})
+
+test('dinner windows and opening hours can go past midnight', () => {
+	expect(
+		getDinnerPeriod(openingHours, { day: 5, start: '22:00', end: '00:30' }),
+	).toEqual(openingHours.periods[3])
+	// Saturday night closes on Sunday morning, at the start of the next week
+	expect(
+		getDinnerPeriod(openingHours, { day: 6, start: '23:00', end: '00:30' }),
+	).toEqual(openingHours.periods[4])
+})
+
+test('restaurants without a close time are always open', () => {
+	const alwaysOpen = {
+		periods: [{ open: { day: 0, hour: 0, minute: 0 } }],
+	}
+
+	expect(
+		getDinnerPeriod(alwaysOpen, { day: 3, start: '18:00', end: '20:00' }),
+	).toEqual(alwaysOpen.periods[0])
+	expect(
+		getMinutesUntilClose(alwaysOpen, { day: 3, hour: 19, minute: 0 }),
+	).toBe(Infinity)
+})
+
+test('gets the minutes until a restaurant closes', () => {
+	expect(
+		getMinutesUntilClose(openingHours, { day: 2, hour: 20, minute: 15 }),
+	).toBe(45)
+	expect(
+		getMinutesUntilClose(openingHours, { day: 6, hour: 23, minute: 30 }),
+	).toBe(90)
+	expect(
+		getMinutesUntilClose(openingHours, { day: 2, hour: 21, minute: 0 }),
+	).toBeNull()
+})
+
+test('gets the local day and time in a timezone', () => {
+	// a Wednesday at 1:30am UTC is still Tuesday evening in Denver
+	expect(
+		getLocalTime(new Date('2025-03-19T01:30:00.000Z'), 'America/Denver'),
+	).toEqual({ day: 2, hour: 19, minute: 30 })
+})
+
+test('formats opening times', () => {
+	expect(formatOpeningTime({ hour: 21, minute: 0 })).toBe('9:00 PM')
+	expect(formatOpeningTime({ hour: 0, minute: 30 })).toBe('12:30 AM')
+})
+
+test('ignores stored opening hours it cannot parse', () => {
+	expect(parseOpeningHours(JSON.stringify(openingHours))).toEqual(openingHours)
+	expect(parseOpeningHours('{"periods":[{"open":{}}]}')).toBeNull()
+	expect(parseOpeningHours('not json')).toBeNull()
+	expect(parseOpeningHours(null)).toBeNull()
+})
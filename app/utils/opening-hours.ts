@@ -0,0 +1,169 @@
+import { z } from 'zod'
+import {
+	type OpeningHours,
+	type OpeningHoursPoint,
+} from './providers/places-provider.ts'
+
+const OpeningHoursPointSchema = z.object({
+	day: z.number().int().min(0).max(6),
+	hour: z.number().int().min(0).max(23),
+	minute: z.number().int().min(0).max(59),
+})
+
+export const OpeningHoursSchema = z.object({
+	periods: z.array(
+		z.object({
+			open: OpeningHoursPointSchema,
+			close: OpeningHoursPointSchema.optional(),
+		}),
+	),
+}) satisfies z.ZodType<OpeningHours>
+
+const MINUTES_PER_DAY = 24 * 60
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY
+
+/**
+ * Parses opening hours stored as JSON. Anything we can't make sense of is
+ * treated as unknown hours.
+ */
+export function parseOpeningHours(value: string | null) {
+	if (!value) return null
+	try {
+		const result = OpeningHoursSchema.safeParse(JSON.parse(value))
+		return result.success ? result.data : null
+	} catch {
+		return null
+	}
+}
+
+function toWeekMinutes({ day, hour, minute }: OpeningHoursPoint) {
+	return day * MINUTES_PER_DAY + hour * 60 + minute
+}
+
+/**
+ * Parses an "HH:MM" time into minutes since midnight
+ */
+function parseTime(time: string) {
+	const [hour = 0, minute = 0] = time.split(':').map(Number)
+	return hour * 60 + minute
+}
+
+/**
+ * Finds the period that's open from `start` until `end` (minutes since the
+ * start of the week, with `end` past `start`)
+ */
+function findOpenPeriod(
+	openingHours: OpeningHours,
+	start: number,
+	end: number,
+) {
+	return openingHours.periods.find((period) => {
+		// a period without a close time is open around the clock
+		if (!period.close) return true
+		const open = toWeekMinutes(period.open)
+		let close = toWeekMinutes(period.close)
+		// periods that go past midnight on Saturday close at the start of the week
+		if (close <= open) close += MINUTES_PER_WEEK
+		return [start, start + MINUTES_PER_WEEK].some(
+			(time) => open <= time && time + (end - start) <= close,
+		)
+	})
+}
+
+/**
+ * Gets the period a restaurant is open for the whole dinner window on a day
+ * (0 is Sunday), or null if it's closed for any of it. Times are "HH:MM" in
+ * the restaurant's local time, and a window that ends earlier than it starts
+ * goes past midnight.
+ */
+export function getDinnerPeriod(
+	openingHours: OpeningHours,
+	{ day, start, end }: { day: number; start: string; end: string },
+) {
+	const startMinutes = day * MINUTES_PER_DAY + parseTime(start)
+	let endMinutes = day * MINUTES_PER_DAY + parseTime(end)
+	if (endMinutes <= startMinutes) endMinutes += MINUTES_PER_DAY
+	return findOpenPeriod(openingHours, startMinutes, endMinutes) ?? null
+}
+
+/**
+ * Gets how long until a restaurant closes, or null if it's closed now.
+ * Restaurants that never close are Infinity minutes from closing.
+ */
+export function getMinutesUntilClose(
+	openingHours: OpeningHours,
+	now: OpeningHoursPoint,
+) {
+	const nowMinutes = toWeekMinutes(now)
+	const period = findOpenPeriod(openingHours, nowMinutes, nowMinutes + 1)
+	if (!period) return null
+	if (!period.close) return Infinity
+	const minutes = toWeekMinutes(period.close) - nowMinutes
+	return minutes > 0 ? minutes : minutes + MINUTES_PER_WEEK
+}
+
+const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Gets the calendar date, weekday and time a moment falls on in a timezone
+ */
+export function getZonedParts(date: Date | number, timeZone: string) {
+	const parts = Object.fromEntries(
+		new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			weekday: 'short',
+			hour: 'numeric',
+			minute: 'numeric',
+			hourCycle: 'h23',
+		})
+			.formatToParts(date)
+			.map((part) => [part.type, part.value]),
+	)
+	return {
+		year: Number(parts.year ?? ''),
+		month: Number(parts.month ?? ''), // 1-based
+		day: Number(parts.day ?? ''),
+		weekday: weekdays.indexOf(parts.weekday ?? ''),
+		hour: Number(parts.hour ?? ''),
+		minute: Number(parts.minute ?? ''),
+	}
+}
+
+/**
+ * Gets the day and time it is now in a timezone, to compare with opening hours
+ */
+export function getLocalTime(date: Date, timeZone: string): OpeningHoursPoint {
+	const { weekday, hour, minute } = getZonedParts(date, timeZone)
+	return { day: weekday, hour, minute }
+}
+
+// opening hours are already in the restaurant's local time
+const timeFormatter = new Intl.DateTimeFormat('en-US', {
+	hour: 'numeric',
+	minute: '2-digit',
+	timeZone: 'UTC',
+})
+
+/**
+ * Formats an opening or closing time like "9:00 PM"
+ */
+export function formatOpeningTime({
+	hour,
+	minute,
+}: {
+	hour: number
+	minute: number
+}) {
+	return timeFormatter.format(Date.UTC(2000, 0, 1, hour, minute))
+}
+
+/**
+ * Formats an "HH:MM" time like "6:00 PM"
+ */
+export function formatTime(time: string) {
+	const [hour = 0, minute = 0] = time.split(':').map(Number)
+	return formatOpeningTime({ hour, minute })
+}
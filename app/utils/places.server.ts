@@ -0,0 +1,22 @@
+import { GooglePlacesProvider } from './providers/google-places.server.ts'
+import { OverpassPlacesProvider } from './providers/overpass.server.ts'
+import { type PlacesProvider } from './providers/places-provider.ts'
+import { StaticPlacesProvider } from './providers/static-places.server.ts'
+
+export const placesProviderNames = ['google', 'overpass', 'static'] as const
+export type PlacesProviderName = (typeof placesProviderNames)[number]
+
+export const placesProviders: Record<PlacesProviderName, PlacesProvider> = {
+	google: new GooglePlacesProvider({
+		maxSearches: Number(process.env.GOOGLE_PLACES_MAX_SEARCHES ?? 8),
+	}),
+	overpass: new OverpassPlacesProvider(),
+	static: new StaticPlacesProvider(),
+}
+
+/**
+ * Gets the provider chosen by the PLACES_PROVIDER env variable
+ */
+export function getPlacesProvider() {
+	return placesProviders[process.env.PLACES_PROVIDER ?? 'google']
+}
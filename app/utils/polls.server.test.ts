@@ -0,0 +1,202 @@
+import { expect, test } from 'vitest'
+import { prisma } from '#app/utils/db.server.ts'
+import { createEvent, createRestaurant, createUser } from '#tests/db-utils.ts'
+import {
+	closeDinnerPollEarly,
+	closeOverdueDinnerPolls,
+	createDinnerPoll,
+	getDinnerPoll,
+	voteInDinnerPoll,
+} from './polls.server.ts'
+import { joinDinnerGroup } from './restaurants.server.ts'
+
+const date = new Date('2025-03-20T00:00:00.000Z')
+
+async function setupPoll({ userCount }: { userCount: number }) {
+	const event = await prisma.event.create({ data: createEvent(date) })
+	const restaurants = await Promise.all(
+		Array.from({ length: 3 }, () =>
+			prisma.restaurant.create({ data: createRestaurant() }),
+		),
+	)
+	const users = await Promise.all(
+		Array.from({ length: userCount }, () =>
+			prisma.user.create({ select: { id: true }, data: createUser() }),
+		),
+	)
+	const created = await createDinnerPoll({
+		userId: users[0]!.id,
+		eventId: event.id,
+		date,
+		restaurantIds: restaurants.map((restaurant) => restaurant.id),
+		closesAt: new Date(Date.now() + 1000 * 60 * 60),
+	})
+	if (created.status !== 'created') throw new Error('Poll not created')
+	return { event, restaurants, users, pollId: created.pollId }
+}
+
+test('closing a poll puts every voter in a dinner group at the winner', async () => {
+	const { restaurants, users, pollId } = await setupPoll({ userCount: 4 })
+	const [creator, ...others] = users
+	const [winner, loser] = restaurants
+	await voteInDinnerPoll({
+		userId: others[0]!.id,
+		pollId,
+		restaurantId: winner!.id,
+	})
+	await voteInDinnerPoll({
+		userId: others[1]!.id,
+		pollId,
+		restaurantId: winner!.id,
+	})
+	// changing your mind replaces your vote
+	await voteInDinnerPoll({
+		userId: creator!.id,
+		pollId,
+		restaurantId: winner!.id,
+	})
+	await voteInDinnerPoll({
+		userId: creator!.id,
+		pollId,
+		restaurantId: loser!.id,
+	})
+
+	const poll = await getDinnerPoll({ pollId, userId: creator!.id })
+	expect(poll?.voteCount).toBe(3)
+	expect(poll?.userVote).toBe(loser!.id)
+	expect(poll?.options.find((option) => option.id === winner!.id)?.votes).toBe(
+		2,
+	)
+
+	expect(await closeDinnerPollEarly({ userId: others[0]!.id, pollId })).toEqual(
+		{ status: 'conflict', reason: 'not-creator' },
+	)
+	expect(await closeDinnerPollEarly({ userId: creator!.id, pollId })).toEqual({
+		status: 'closed',
+		pollId,
+		winnerId: winner!.id,
+	})
+
+	const dinnerGroup = await prisma.dinnerGroup.findFirstOrThrow({
+		where: { restaurantId: winner!.id, date },
+		include: { attendees: true },
+	})
+	// everyone who voted joined, and whoever started the poll hosts
+	expect(
+		dinnerGroup.attendees.map((attendee) => attendee.userId).sort(),
+	).toEqual([creator!.id, others[0]!.id, others[1]!.id].sort())
+	expect(dinnerGroup.hostId).toBe(creator!.id)
+
+	// someone who didn't vote in time
+	expect(
+		await voteInDinnerPoll({
+			userId: others[2]!.id,
+			pollId,
+			restaurantId: winner!.id,
+		}),
+	).toEqual({ status: 'conflict', reason: 'poll-closed' })
+})
+
+test('a poll closes once its deadline has passed', async () => {
+	const { event, restaurants, users, pollId } = await setupPoll({
+		userCount: 2,
+	})
+	const [first, second] = restaurants
+	await voteInDinnerPoll({
+		userId: users[0]!.id,
+		pollId,
+		restaurantId: first!.id,
+	})
+	await voteInDinnerPoll({
+		userId: users[1]!.id,
+		pollId,
+		restaurantId: second!.id,
+	})
+	await prisma.dinnerPoll.update({
+		where: { id: pollId },
+		data: { closesAt: new Date(Date.now() - 1000) },
+	})
+	expect(
+		await voteInDinnerPoll({
+			userId: users[1]!.id,
+			pollId,
+			restaurantId: first!.id,
+		}),
+	).toEqual({ status: 'conflict', reason: 'poll-closed' })
+
+	await closeOverdueDinnerPolls({
+		userId: users[0]!.id,
+		eventId: event.id,
+		date,
+	})
+
+	const poll = await getDinnerPoll({ pollId, userId: users[1]!.id })
+	// a tie goes to whichever got there first
+	expect(poll).toMatchObject({ isClosed: true, winnerId: first!.id })
+	expect(
+		await prisma.attendee.count({
+			where: { dinnerGroup: { restaurantId: first!.id } },
+		}),
+	).toBe(2)
+})
+
+test('closing a poll again picks up where a failed close left off', async () => {
+	const { event, restaurants, users, pollId } = await setupPoll({
+		userCount: 2,
+	})
+	const [winner] = restaurants
+	for (const user of users) {
+		await voteInDinnerPoll({
+			userId: user.id,
+			pollId,
+			restaurantId: winner!.id,
+		})
+	}
+	await prisma.dinnerPoll.update({
+		where: { id: pollId },
+		data: { closesAt: new Date(Date.now() - 1000) },
+	})
+	// say the first voter joined before the close failed
+	await joinDinnerGroup({
+		userId: users[0]!.id,
+		eventId: event.id,
+		restaurantId: winner!.id,
+		date,
+	})
+
+	await closeOverdueDinnerPolls({
+		userId: users[1]!.id,
+		eventId: event.id,
+		date,
+	})
+
+	const dinnerGroup = await prisma.dinnerGroup.findFirstOrThrow({
+		where: { restaurantId: winner!.id, date },
+		include: { attendees: true },
+	})
+	expect(dinnerGroup.attendees).toHaveLength(2)
+	expect(
+		await prisma.dinnerPoll.findUniqueOrThrow({ where: { id: pollId } }),
+	).toMatchObject({ winnerId: winner!.id, closedAt: expect.any(Date) })
+})
+
+test('a poll needs two to five restaurants that exist', async () => {
+	const { event, restaurants, users } = await setupPoll({ userCount: 1 })
+	const create = (restaurantIds: Array<string>) =>
+		createDinnerPoll({
+			userId: users[0]!.id,
+			eventId: event.id,
+			date,
+			restaurantIds,
+			closesAt: new Date(Date.now() + 1000 * 60),
+		})
+
+	expect(await create([restaurants[0]!.id])).toEqual({
+		status: 'conflict',
+		reason: 'not-an-option',
+	})
+	expect(await create([restaurants[0]!.id, 'nope'])).toEqual({
+		status: 'conflict',
+		reason: 'not-an-option',
+	})
+})
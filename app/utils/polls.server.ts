@@ -0,0 +1,340 @@
+import { Prisma } from '@prisma/client/index.js'
+import { publishAttendanceEvents } from './attendance-events.server.ts'
+import { prisma } from './db.server.ts'
+import { dateToNight } from './events.server.ts'
+import { ensurePrimary } from './litefs.server.ts'
+import { joinDinnerGroup } from './restaurants.server.ts'
+
+export const MIN_POLL_OPTIONS = 2
+export const MAX_POLL_OPTIONS = 5
+
+export type PollConflict =
+	| 'poll-closed' // voting has ended
+	| 'not-an-option' // the restaurant isn't one of the poll's
+	| 'not-creator' // only whoever started the poll can close it early
+
+export type PollResult =
+	| { status: 'created'; pollId: string }
+	| { status: 'voted'; pollId: string }
+	| { status: 'closed'; pollId: string; winnerId: string | null }
+	| { status: 'conflict'; reason: PollConflict }
+
+/**
+ * Starts a poll on where to have dinner on a night of an event, between two
+ * to five stored restaurants
+ */
+export async function createDinnerPoll({
+	userId,
+	eventId,
+	date,
+	restaurantIds,
+	closesAt,
+}: {
+	userId: string
+	eventId: string
+	date: Date
+	restaurantIds: Array<string>
+	closesAt: Date
+}): Promise<PollResult> {
+	const ids = [...new Set(restaurantIds)]
+	const count = await prisma.restaurant.count({ where: { id: { in: ids } } })
+	if (
+		count !== ids.length ||
+		ids.length < MIN_POLL_OPTIONS ||
+		ids.length > MAX_POLL_OPTIONS
+	) {
+		return { status: 'conflict', reason: 'not-an-option' }
+	}
+	if (closesAt <= new Date()) {
+		return { status: 'conflict', reason: 'poll-closed' }
+	}
+
+	const poll = await prisma.dinnerPoll.create({
+		select: { id: true },
+		data: {
+			eventId,
+			date,
+			closesAt,
+			createdById: userId,
+			restaurants: { connect: ids.map((id) => ({ id })) },
+		},
+	})
+	return { status: 'created', pollId: poll.id }
+}
+
+/**
+ * Votes for one of a poll's restaurants, replacing the user's earlier vote
+ */
+export async function voteInDinnerPoll({
+	userId,
+	pollId,
+	restaurantId,
+}: {
+	userId: string
+	pollId: string
+	restaurantId: string
+}): Promise<PollResult> {
+	// checked and cast together, so a vote can't land after the poll closes
+	const voted = await prisma.$transaction(
+		async (tx) => {
+			const poll = await tx.dinnerPoll.findUnique({
+				where: { id: pollId },
+				include: {
+					restaurants: { where: { id: restaurantId }, select: { id: true } },
+				},
+			})
+			if (!poll || poll.closedAt || poll.closesAt <= new Date()) {
+				return 'poll-closed' as const
+			}
+			if (!poll.restaurants.length) {
+				return 'not-an-option' as const
+			}
+			await tx.dinnerPollVote.upsert({
+				where: { pollId_userId: { pollId, userId } },
+				create: { pollId, userId, restaurantId },
+				update: { restaurantId },
+			})
+			return poll
+		},
+		{ isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+	)
+	if (typeof voted === 'string') {
+		return { status: 'conflict', reason: voted }
+	}
+
+	await publishAttendanceEvents([
+		{
+			type: 'poll-voted',
+			eventId: voted.eventId,
+			night: dateToNight(voted.date),
+			pollId,
+			userId,
+		},
+	])
+	return { status: 'voted', pollId }
+}
+
+/**
+ * Closes a poll before its deadline. Only whoever started it can do this.
+ */
+export async function closeDinnerPollEarly({
+	userId,
+	pollId,
+}: {
+	userId: string
+	pollId: string
+}): Promise<PollResult> {
+	const poll = await prisma.dinnerPoll.findUnique({
+		where: { id: pollId },
+		select: { createdById: true },
+	})
+	if (!poll) {
+		return { status: 'conflict', reason: 'poll-closed' }
+	}
+	if (poll.createdById !== userId) {
+		return { status: 'conflict', reason: 'not-creator' }
+	}
+	return closeDinnerPoll(pollId, userId)
+}
+
+/**
+ * Picks the restaurant with the most votes. Ties go to whichever got there
+ * first.
+ */
+function getWinnerId(votes: Array<{ restaurantId: string; updatedAt: Date }>) {
+	const tally = new Map<string, { count: number; reachedAt: number }>()
+	for (const vote of votes) {
+		const entry = tally.get(vote.restaurantId) ?? { count: 0, reachedAt: 0 }
+		tally.set(vote.restaurantId, {
+			count: entry.count + 1,
+			reachedAt: Math.max(entry.reachedAt, vote.updatedAt.getTime()),
+		})
+	}
+	let winner: { id: string; count: number; reachedAt: number } | null = null
+	for (const [id, { count, reachedAt }] of tally) {
+		if (
+			!winner ||
+			count > winner.count ||
+			(count === winner.count && reachedAt < winner.reachedAt)
+		) {
+			winner = { id, count, reachedAt }
+		}
+	}
+	return winner?.id ?? null
+}
+
+/**
+ * Closes a poll and turns it into a dinner group at the winning restaurant by
+ * joining every voter to it. Whoever started the poll joins first so they
+ * host it. Closing a poll that's already closed does nothing.
+ *
+ * The poll is only marked closed once everyone has joined, so if a join fails
+ * it stays overdue and closing it again picks up where this left off. Voters
+ * who already joined are left as they are.
+ */
+async function closeDinnerPoll(
+	pollId: string,
+	userId: string,
+): Promise<PollResult> {
+	// end the voting and count the votes together, so no vote slips in between
+	const poll = await prisma.$transaction(
+		async (tx) => {
+			const poll = await tx.dinnerPoll.findUnique({
+				where: { id: pollId },
+				select: { closesAt: true, closedAt: true },
+			})
+			if (!poll || poll.closedAt) return null
+			const now = new Date()
+			return tx.dinnerPoll.update({
+				where: { id: pollId },
+				data: { closesAt: poll.closesAt < now ? poll.closesAt : now },
+				include: { votes: { orderBy: { updatedAt: 'asc' } } },
+			})
+		},
+		{ isolationLevel: Prisma.TransactionIsolationLevel.Serializable },
+	)
+	if (!poll) {
+		return { status: 'conflict', reason: 'poll-closed' }
+	}
+	const winnerId = getWinnerId(poll.votes)
+
+	if (winnerId) {
+		const voters = poll.votes
+			.map((vote) => vote.userId)
+			.sort((a, b) =>
+				a === poll.createdById ? -1 : b === poll.createdById ? 1 : 0,
+			)
+		// one at a time so they all end up in the same group
+		for (const voterId of voters) {
+			await joinDinnerGroup({
+				userId: voterId,
+				eventId: poll.eventId,
+				restaurantId: winnerId,
+				date: poll.date,
+			})
+		}
+	}
+
+	// only one request gets to close it, even if several notice the deadline
+	const { count } = await prisma.dinnerPoll.updateMany({
+		where: { id: pollId, closedAt: null },
+		data: { closedAt: new Date(), winnerId },
+	})
+	if (!count) {
+		return { status: 'conflict', reason: 'poll-closed' }
+	}
+
+	await publishAttendanceEvents([
+		{
+			type: 'poll-closed',
+			eventId: poll.eventId,
+			night: dateToNight(poll.date),
+			pollId,
+			userId,
+		},
+	])
+	return { status: 'closed', pollId, winnerId }
+}
+
+/**
+ * Closes a night's polls whose deadline has passed, on behalf of whoever
+ * noticed. Nothing closes them when the deadline comes, so this runs before
+ * anything shows that night's groups or polls. A poll that fails to close is
+ * left for the next time.
+ */
+export async function closeOverdueDinnerPolls({
+	userId,
+	eventId,
+	date,
+}: {
+	userId: string
+	eventId: string
+	date: Date
+}) {
+	const overdue = await prisma.dinnerPoll.findMany({
+		where: { eventId, date, closedAt: null, closesAt: { lte: new Date() } },
+		select: { id: true },
+	})
+	if (!overdue.length) return
+	// closing writes, so a replica hands the request over to the primary
+	await ensurePrimary()
+	for (const poll of overdue) {
+		await closeDinnerPoll(poll.id, userId).catch((error: unknown) => {
+			console.error(`Failed to close dinner poll ${poll.id}`, error)
+		})
+	}
+}
+
+/**
+ * Gets a poll with its live tally and the user's vote, closing it first if its
+ * deadline has passed
+ */
+export async function getDinnerPoll({
+	pollId,
+	userId,
+}: {
+	pollId: string
+	userId: string
+}) {
+	const pollNight = await prisma.dinnerPoll.findUnique({
+		where: { id: pollId },
+		select: { eventId: true, date: true },
+	})
+	if (!pollNight) return null
+	await closeOverdueDinnerPolls({ userId, ...pollNight })
+
+	const poll = await prisma.dinnerPoll.findUniqueOrThrow({
+		where: { id: pollId },
+		include: {
+			event: {
+				select: { id: true, name: true, timezone: true },
+			},
+			createdBy: { select: { name: true, username: true } },
+			restaurants: {
+				select: {
+					id: true,
+					name: true,
+					rating: true,
+					priceLevel: true,
+					cuisines: {
+						select: { name: true, label: true },
+						orderBy: { label: 'asc' },
+					},
+				},
+				orderBy: { name: 'asc' },
+			},
+			votes: { select: { userId: true, restaurantId: true } },
+		},
+	})
+
+	const { votes, restaurants, ...rest } = poll
+	return {
+		...rest,
+		night: dateToNight(poll.date),
+		isClosed: Boolean(poll.closedAt),
+		isUserCreator: poll.createdById === userId,
+		userVote:
+			votes.find((vote) => vote.userId === userId)?.restaurantId ?? null,
+		voteCount: votes.length,
+		options: restaurants.map((restaurant) => ({
+			...restaurant,
+			votes: votes.filter((vote) => vote.restaurantId === restaurant.id).length,
+		})),
+	}
+}
+
+/**
+ * Gets the polls still open for a night of an event, soonest to close first
+ */
+export async function getOpenDinnerPolls(eventId: string, date: Date) {
+	return prisma.dinnerPoll.findMany({
+		where: { eventId, date, closedAt: null, closesAt: { gt: new Date() } },
+		select: {
+			id: true,
+			closesAt: true,
+			restaurants: { select: { name: true }, orderBy: { name: 'asc' } },
+			_count: { select: { votes: true } },
+		},
+		orderBy: { closesAt: 'asc' },
+	})
+}
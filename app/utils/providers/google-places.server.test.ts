@@ -0,0 +1,74 @@
+import { expect, test } from 'vitest'
+import { GooglePlacesProvider } from './google-places.server.ts'
+
+// the mocks put a few restaurants in every ~1km cell, so a 5km radius has far
+// more than the 20 one search returns
+const downtown = { lat: 40.7596, lng: -111.8868, radius: 5000 }
+
+test('covers busy areas with more searches', async () => {
+	const provider = new GooglePlacesProvider()
+
+	const restaurants = await provider.getNearbyRestaurants(downtown)
+
+	expect(restaurants.length).toBeGreaterThan(20)
+	const ids = restaurants.map((restaurant) => restaurant.id)
+	expect(new Set(ids).size).toBe(ids.length)
+})
+
+test('stops after the configured max searches', async () => {
+	const provider = new GooglePlacesProvider({ maxSearches: 1 })
+
+	const restaurants = await provider.getNearbyRestaurants(downtown)
+
+	expect(restaurants).toHaveLength(20)
+})
+
+test('gets everything from the one search in quiet areas', async () => {
+	const provider = new GooglePlacesProvider()
+
+	const restaurants = await provider.getNearbyRestaurants({
+		...downtown,
+		radius: 300,
+	})
+
+	expect(restaurants.length).toBeLessThan(20)
+	for (const restaurant of restaurants) {
+		expect(restaurant.mapsUrl).toEqual(expect.any(String))
+		expect(restaurant.openingHours?.periods).toEqual(expect.any(Array))
+	}
+})
+
+test('gets cuisines from place types', async () => {
+	const provider = new GooglePlacesProvider({ maxSearches: 1 })
+
+	const restaurants = await provider.getNearbyRestaurants(downtown)
+
+	for (const restaurant of restaurants) {
+		if (restaurant.primaryType?.endsWith('_restaurant')) {
+			expect(restaurant.cuisines).toContain(
+				restaurant.primaryType.replace(/_restaurant$/, ''),
+			)
+		}
+		expect(restaurant.cuisines).not.toContain('restaurant')
+	}
+})
+
+test('geocodes landmarks near the point', async () => {
+	const provider = new GooglePlacesProvider()
+
+	const results = await provider.geocode({
+		query: 'Convention Center North Entrance',
+		lat: downtown.lat,
+		lng: downtown.lng,
+	})
+
+	expect(results.length).toBeGreaterThan(0)
+	expect(results[0]).toMatchObject({
+		name: 'Convention Center North Entrance',
+		address: expect.any(String),
+	})
+	for (const result of results) {
+		expect(Math.abs(result.lat - downtown.lat)).toBeLessThan(0.1)
+		expect(Math.abs(result.lng - downtown.lng)).toBeLessThan(0.1)
+	}
+})
@@ -1,4 +1,6 @@
 import { invariant } from '@epic-web/invariant'
+import { getDistanceInMeters } from '../distance'
+import { type GeocodeResult, type OpeningHours, type PlaceDetails, type PlaceSummary, type PlacesProvider } from './places-provider'
 
 type LatLng = {
   lat: number
@@ -10,142 +12,364 @@ type NearbySearchParams = {
   radius: number // in meters
 }
 
-type PlaceDetailsParams = {
-  placeId: string
-}
-
-type Restaurant = {
-  id: string // Google Place ID
-  name: string
-  priceLevel: number | null
-  rating: number | null
-  lat: number
-  lng: number
-  photoRef: string | null
-  mapsUrl: string | null
-}
+// Places API (New) types, see https://developers.google.com/maps/documentation/places/web-service/reference/rest/v1/places
+type GooglePriceLevel =
+  | 'PRICE_LEVEL_UNSPECIFIED'
+  | 'PRICE_LEVEL_FREE'
+  | 'PRICE_LEVEL_INEXPENSIVE'
+  | 'PRICE_LEVEL_MODERATE'
+  | 'PRICE_LEVEL_EXPENSIVE'
+  | 'PRICE_LEVEL_VERY_EXPENSIVE'
 
-// Google Places API types
 type GooglePlacePhoto = {
-  photo_reference: string
-  height: number
-  width: number
-  html_attributions: string[]
+  name: string // places/PLACE_ID/photos/PHOTO_RESOURCE
+  widthPx: number
+  heightPx: number
 }
 
-type GooglePlaceResult = {
-  place_id: string
-  name: string
-  price_level?: number
+type GooglePlace = {
+  id: string
+  displayName?: { text: string; languageCode?: string }
+  location: { latitude: number; longitude: number }
+  googleMapsUri?: string
+  priceLevel?: GooglePriceLevel
   rating?: number
-  geometry: {
-    location: {
-      lat: number
-      lng: number
-    }
-  }
+  userRatingCount?: number
+  primaryType?: string
+  types?: string[]
   photos?: GooglePlacePhoto[]
+  regularOpeningHours?: OpeningHours
+  formattedAddress?: string
+  nationalPhoneNumber?: string
+  websiteUri?: string
 }
 
-type GooglePlaceDetailsResult = {
-  url?: string
+// searchNearby and searchText both respond with this
+type GoogleSearchResponse = {
+  places?: GooglePlace[]
 }
 
-type GooglePlacesResponse = {
-  status: string
-  results?: GooglePlaceResult[]
-  result?: GooglePlaceDetailsResult
+const API_URL = 'https://places.googleapis.com/v1'
+
+// Only the fields we ask for are returned (and billed)
+const NEARBY_FIELD_MASK = [
+  'places.id',
+  'places.displayName',
+  'places.location',
+  'places.googleMapsUri',
+  'places.priceLevel',
+  'places.rating',
+  'places.userRatingCount',
+  'places.primaryType',
+  'places.types',
+  'places.photos',
+  'places.regularOpeningHours',
+].join(',')
+
+const DETAILS_FIELD_MASK = [
+  'id',
+  'displayName',
+  'formattedAddress',
+  'nationalPhoneNumber',
+  'websiteUri',
+  'googleMapsUri',
+  'regularOpeningHours',
+  'photos',
+].join(',')
+
+const GEOCODE_FIELD_MASK = [
+  'places.id',
+  'places.displayName',
+  'places.formattedAddress',
+  'places.location',
+].join(',')
+
+const MAX_GALLERY_PHOTOS = 6
+const MAX_GEOCODE_RESULTS = 5
+// How far to prefer geocoding results from, since people mean somewhere nearby
+const GEOCODE_BIAS_RADIUS = 50_000
+
+const priceLevels: Record<GooglePriceLevel, number | null> = {
+  PRICE_LEVEL_UNSPECIFIED: null,
+  PRICE_LEVEL_FREE: null,
+  PRICE_LEVEL_INEXPENSIVE: 1,
+  PRICE_LEVEL_MODERATE: 2,
+  PRICE_LEVEL_EXPENSIVE: 3,
+  PRICE_LEVEL_VERY_EXPENSIVE: 4,
 }
 
-/**
- * Fetches nearby restaurants from Google Places API
- */
-export async function getNearbyRestaurants({
-  lat,
-  lng,
-  radius = 1600, // Default to 1 mile (1600 meters)
-}: {
-  lat: number
-  lng: number
-  radius?: number
-}): Promise<Restaurant[]> {
-  const apiKey = process.env.GOOGLE_PLACES_API_KEY
-  invariant(apiKey, 'GOOGLE_PLACES_API_KEY must be set')
+// Place types that say what food a place serves, besides the "*_restaurant"
+// ones. See https://developers.google.com/maps/documentation/places/web-service/place-types#food-and-drink
+const FOOD_TYPES = new Set([
+  'bakery',
+  'bar',
+  'cafe',
+  'coffee_shop',
+  'deli',
+  'diner',
+  'ice_cream_shop',
+  'pub',
+  'sandwich_shop',
+  'steak_house',
+  'wine_bar',
+])
 
-  // First, get nearby restaurants
-  const nearbyResults = await fetchNearbySearch({
-    location: { lat, lng },
-    radius,
-  })
+// searchNearby returns at most 20 places and has no pagination
+const MAX_RESULT_COUNT = 20
+// One search of the whole area plus seven of radius/2 that cover it
+const MAX_SEARCHES = 8
 
-  // Then, get details for each restaurant in parallel
-  const detailsPromises = nearbyResults.map(place => 
-    fetchPlaceDetails({ placeId: place.place_id })
-  )
-  
-  const detailsResults = await Promise.all(detailsPromises)
+export class GooglePlacesProvider implements PlacesProvider {
+  private maxSearches: number
 
-  // Combine the data and transform to our schema
-  return nearbyResults.map((place, index) => {
-    const details = detailsResults[index] || {}
-    return {
-      id: place.place_id,
-      name: place.name,
-      priceLevel: place.price_level ?? null,
-      rating: place.rating ?? null,
-      lat: place.geometry.location.lat,
-      lng: place.geometry.location.lng,
-      photoRef: place.photos?.[0]?.photo_reference ?? null,
-      mapsUrl: details.url ?? null,
+  constructor({ maxSearches = MAX_SEARCHES }: { maxSearches?: number } = {}) {
+    this.maxSearches = Math.min(Math.max(maxSearches, 1), MAX_SEARCHES)
+  }
+
+  /**
+   * Fetches nearby restaurants from Google Places API. searchNearby only
+   * returns the 20 most popular places, so if the area has more than that we
+   * search smaller circles covering it too. Places can show up in more than one
+   * of those, so the results are de-duplicated.
+   */
+  async getNearbyRestaurants({
+    lat,
+    lng,
+    radius,
+  }: {
+    lat: number
+    lng: number
+    radius: number
+  }): Promise<PlaceSummary[]> {
+    const location = { lat, lng }
+    const places = await fetchSearchNearby({ location, radius })
+
+    if (places.length >= MAX_RESULT_COUNT && this.maxSearches > 1) {
+      const tiles = getCoveringCircles(location, radius).slice(0, this.maxSearches - 1)
+      const tilePlaces = await Promise.all(tiles.map(fetchSearchNearby))
+      places.push(
+        // the tiles poke out past the edge of the original circle
+        ...tilePlaces.flat().filter(place =>
+          getDistanceInMeters(location, getLatLng(place)) <= radius
+        ),
+      )
     }
-  })
-}
 
-async function fetchNearbySearch({ location, radius }: NearbySearchParams): Promise<GooglePlaceResult[]> {
-  const apiKey = process.env.GOOGLE_PLACES_API_KEY
-  invariant(apiKey, 'GOOGLE_PLACES_API_KEY must be set')
+    const uniquePlaces = new Map(places.map(place => [place.id, place]))
+    return [...uniquePlaces.values()].map(toPlaceSummary)
+  }
+
+  /**
+   * Finds restaurants by name or cuisine with searchText. The location is only
+   * a bias, so well-known places a little further away still show up.
+   */
+  async searchRestaurants({
+    query,
+    lat,
+    lng,
+    radius,
+  }: {
+    query: string
+    lat: number
+    lng: number
+    radius: number
+  }): Promise<PlaceSummary[]> {
+    const response = await fetch(`${API_URL}/places:searchText`, {
+      method: 'POST',
+      headers: getHeaders(NEARBY_FIELD_MASK),
+      body: JSON.stringify({
+        textQuery: query,
+        includedType: 'restaurant',
+        pageSize: MAX_RESULT_COUNT,
+        locationBias: {
+          circle: {
+            center: { latitude: lat, longitude: lng },
+            radius,
+          },
+        },
+      }),
+    })
+
+    await assertOk(response)
+
+    const data = await response.json() as GoogleSearchResponse
+    return (data.places ?? []).map(toPlaceSummary)
+  }
+
+  /**
+   * Geocodes addresses and landmarks (like "Convention Center North
+   * Entrance") with searchText, which understands both
+   */
+  async geocode({
+    query,
+    lat,
+    lng,
+  }: {
+    query: string
+    lat: number
+    lng: number
+  }): Promise<GeocodeResult[]> {
+    const response = await fetch(`${API_URL}/places:searchText`, {
+      method: 'POST',
+      headers: getHeaders(GEOCODE_FIELD_MASK),
+      body: JSON.stringify({
+        textQuery: query,
+        pageSize: MAX_GEOCODE_RESULTS,
+        locationBias: {
+          circle: {
+            center: { latitude: lat, longitude: lng },
+            radius: GEOCODE_BIAS_RADIUS,
+          },
+        },
+      }),
+    })
 
-  const url = new URL('https://maps.googleapis.com/maps/api/place/nearbysearch/json')
-  url.searchParams.append('location', `${location.lat},${location.lng}`)
-  url.searchParams.append('radius', radius.toString())
-  url.searchParams.append('type', 'restaurant')
-  url.searchParams.append('key', apiKey)
+    await assertOk(response)
 
-  const response = await fetch(url.toString())
-  
-  if (!response.ok) {
-    throw new Error(`Google Places API error: ${response.statusText}`)
+    const data = await response.json() as GoogleSearchResponse
+    return (data.places ?? []).map(place => ({
+      id: place.id,
+      name: place.displayName?.text ?? '',
+      address: place.formattedAddress ?? null,
+      ...getLatLng(place),
+    }))
   }
 
-  const data = await response.json() as GooglePlacesResponse
-  
-  if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
-    throw new Error(`Google Places API error: ${data.status}`)
+  async getPlaceDetails(placeId: string): Promise<PlaceDetails | null> {
+    const response = await fetch(`${API_URL}/places/${encodeURIComponent(placeId)}`, {
+      headers: getHeaders(DETAILS_FIELD_MASK),
+    })
+
+    // A made-up ID isn't the API failing, so it shouldn't trip the circuit
+    // breaker. Malformed ones get INVALID_ARGUMENT rather than NOT_FOUND.
+    if (response.status === 404 || response.status === 400) return null
+    await assertOk(response)
+
+    const place = await response.json() as GooglePlace
+    return {
+      id: place.id,
+      name: place.displayName?.text ?? '',
+      address: place.formattedAddress ?? null,
+      phoneNumber: place.nationalPhoneNumber ?? null,
+      website: place.websiteUri ?? null,
+      mapsUrl: place.googleMapsUri ?? null,
+      openingHours: place.regularOpeningHours
+        ? { periods: place.regularOpeningHours.periods }
+        : null,
+      photoRefs: (place.photos ?? [])
+        .slice(0, MAX_GALLERY_PHOTOS)
+        .map(photo => photo.name),
+    }
   }
 
-  return data.results || []
+  async getPhoto(photoRef: string, { maxWidth }: { maxWidth: number }) {
+    // photoRef is a photo's resource name, don't let it point anywhere else
+    if (!/^places\/[\w-]+\/photos\/[\w-]+$/.test(photoRef)) {
+      return new Response('Not found', { status: 404 })
+    }
+
+    const photoUrl = new URL(`${API_URL}/${photoRef}/media`)
+    photoUrl.searchParams.append('maxWidthPx', maxWidth.toString())
+
+    // This redirects to the image itself
+    return fetch(photoUrl.toString(), {
+      headers: { 'X-Goog-Api-Key': getApiKey() },
+    })
+  }
 }
 
-async function fetchPlaceDetails({ placeId }: PlaceDetailsParams): Promise<GooglePlaceDetailsResult> {
+function getApiKey() {
   const apiKey = process.env.GOOGLE_PLACES_API_KEY
   invariant(apiKey, 'GOOGLE_PLACES_API_KEY must be set')
+  return apiKey
+}
 
-  const url = new URL('https://maps.googleapis.com/maps/api/place/details/json')
-  url.searchParams.append('place_id', placeId)
-  url.searchParams.append('fields', 'url')
-  url.searchParams.append('key', apiKey)
-
-  const response = await fetch(url.toString())
-  
-  if (!response.ok) {
-    throw new Error(`Google Places API error: ${response.statusText}`)
+function getHeaders(fieldMask: string) {
+  return {
+    'Content-Type': 'application/json',
+    'X-Goog-Api-Key': getApiKey(),
+    'X-Goog-FieldMask': fieldMask,
   }
+}
+
+async function assertOk(response: Response) {
+  if (response.ok) return
+  const body = await response.json().catch(() => null) as
+    { error?: { status?: string; message?: string } } | null
+  throw new Error(
+    `Google Places API error: ${body?.error?.status ?? response.statusText} ${body?.error?.message ?? ''}`.trim(),
+  )
+}
+
+async function fetchSearchNearby({ location, radius }: NearbySearchParams): Promise<GooglePlace[]> {
+  const response = await fetch(`${API_URL}/places:searchNearby`, {
+    method: 'POST',
+    headers: getHeaders(NEARBY_FIELD_MASK),
+    body: JSON.stringify({
+      includedTypes: ['restaurant'],
+      maxResultCount: MAX_RESULT_COUNT,
+      rankPreference: 'POPULARITY',
+      locationRestriction: {
+        circle: {
+          center: { latitude: location.lat, longitude: location.lng },
+          radius,
+        },
+      },
+    }),
+  })
 
-  const data = await response.json() as GooglePlacesResponse
-  
-  if (data.status !== 'OK') {
-    throw new Error(`Google Places API error: ${data.status}`)
+  await assertOk(response)
+
+  const data = await response.json() as GoogleSearchResponse
+  return data.places || []
+}
+
+function toPlaceSummary(place: GooglePlace): PlaceSummary {
+  return {
+    id: place.id,
+    name: place.displayName?.text ?? '',
+    priceLevel: place.priceLevel ? priceLevels[place.priceLevel] : null,
+    rating: place.rating ?? null,
+    ratingCount: place.userRatingCount ?? null,
+    primaryType: place.primaryType ?? null,
+    cuisines: getCuisines(place.types),
+    ...getLatLng(place),
+    photoRef: place.photos?.[0]?.name ?? null,
+    mapsUrl: place.googleMapsUri ?? null,
+    openingHours: place.regularOpeningHours
+      ? { periods: place.regularOpeningHours.periods }
+      : null,
   }
+}
+
+/**
+ * Gets cuisines like "thai" from place types like "thai_restaurant"
+ */
+function getCuisines(types: string[] = []) {
+  return types.flatMap(type => {
+    if (type.endsWith('_restaurant')) return [type.slice(0, -'_restaurant'.length)]
+    return FOOD_TYPES.has(type) ? [type] : []
+  })
+}
 
-  return data.result || {}
-} 
\ No newline at end of file
+function getLatLng(place: GooglePlace): LatLng {
+  return { lat: place.location.latitude, lng: place.location.longitude }
+}
+
+/**
+ * Seven circles with half the radius cover the whole circle: one in the middle
+ * and six around it
+ */
+function getCoveringCircles(center: LatLng, radius: number): NearbySearchParams[] {
+  const offset = (radius * Math.sqrt(3)) / 2
+  const metersPerDegreeLat = 111_320
+  const metersPerDegreeLng = metersPerDegreeLat * Math.cos(center.lat * (Math.PI / 180))
+  const ring = Array.from({ length: 6 }, (_, index) => {
+    const angle = (index * Math.PI) / 3
+    return {
+      lat: center.lat + (offset * Math.sin(angle)) / metersPerDegreeLat,
+      lng: center.lng + (offset * Math.cos(angle)) / metersPerDegreeLng,
+    }
+  })
+  return [center, ...ring].map(location => ({ location, radius: radius / 2 }))
+}
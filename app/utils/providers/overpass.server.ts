@@ -0,0 +1,269 @@
+import { z } from 'zod'
+import {
+	type GeocodeResult,
+	type PlaceDetails,
+	type PlaceSummary,
+	type PlacesProvider,
+} from './places-provider.ts'
+
+const OverpassElementSchema = z.object({
+	type: z.enum(['node', 'way', 'relation']),
+	id: z.number(),
+	// nodes have a position, ways and relations have a center with `out center`
+	lat: z.number().optional(),
+	lon: z.number().optional(),
+	center: z.object({ lat: z.number(), lon: z.number() }).optional(),
+	tags: z.record(z.string()).default({}),
+})
+
+const OverpassResponseSchema = z.object({
+	elements: z.array(OverpassElementSchema),
+})
+
+type OverpassElement = z.infer<typeof OverpassElementSchema>
+
+// See https://nominatim.org/release-docs/latest/api/Search/
+const NominatimResponseSchema = z.array(
+	z.object({
+		osm_type: z.enum(['node', 'way', 'relation']),
+		osm_id: z.number(),
+		lat: z.coerce.number(),
+		lon: z.coerce.number(),
+		name: z.string().optional(),
+		display_name: z.string(),
+	}),
+)
+
+const MAX_GEOCODE_RESULTS = 5
+// Prefer geocoding results within about half a degree (around 50km)
+const GEOCODE_VIEWBOX_SPAN = 0.5
+
+function getApiUrl() {
+	return (
+		process.env.OVERPASS_API_URL ?? 'https://overpass-api.de/api/interpreter'
+	)
+}
+
+function getGeocodeUrl() {
+	return (
+		process.env.NOMINATIM_API_URL ??
+		'https://nominatim.openstreetmap.org/search'
+	)
+}
+
+async function query(overpassQuery: string) {
+	const response = await fetch(getApiUrl(), {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+		body: new URLSearchParams({ data: overpassQuery }),
+	})
+	if (!response.ok) {
+		throw new Error(`Overpass API error: ${response.statusText}`)
+	}
+	return OverpassResponseSchema.parse(await response.json()).elements
+}
+
+/**
+ * Place IDs are the element's type and ID, like "node/123", which is also its
+ * path on openstreetmap.org
+ */
+function parsePlaceId(placeId: string) {
+	const match = placeId.match(/^(node|way|relation)\/(\d+)$/)
+	if (!match) return null
+	return { type: match[1], id: match[2] }
+}
+
+function getPosition(element: OverpassElement) {
+	if (element.lat !== undefined && element.lon !== undefined) {
+		return { lat: element.lat, lng: element.lon }
+	}
+	if (element.center) {
+		return { lat: element.center.lat, lng: element.center.lon }
+	}
+	return null
+}
+
+function getAddress(tags: Record<string, string>) {
+	const street = [tags['addr:housenumber'], tags['addr:street']]
+		.filter(Boolean)
+		.join(' ')
+	const address = [street, tags['addr:city']].filter(Boolean).join(', ')
+	return address || null
+}
+
+/**
+ * Splits OSM cuisines like "mexican;Tex-Mex" into ones like "mexican" and
+ * "tex_mex", the same as we get from Google's place types
+ */
+function getCuisines(tags: Record<string, string>) {
+	return (tags.cuisine ?? '')
+		.split(';')
+		.map((cuisine) => cuisine.trim().toLowerCase().replace(/\W+/g, '_'))
+		.filter(Boolean)
+}
+
+/**
+ * Maps the first OSM cuisine to a Google-style place type (like
+ * "mexican_restaurant") so filters work the same for both
+ */
+function getPrimaryType(tags: Record<string, string>) {
+	const [cuisine] = getCuisines(tags)
+	return cuisine ? `${cuisine}_restaurant` : null
+}
+
+function isHttpsUrl(value: string | undefined): value is string {
+	return Boolean(value?.startsWith('https://'))
+}
+
+/**
+ * Elements without a position or a name can't be shown, so they're skipped
+ */
+function toPlaceSummary(element: OverpassElement): PlaceSummary | null {
+	const position = getPosition(element)
+	const name = element.tags.name
+	if (!position || !name) return null
+	const placeId = `${element.type}/${element.id}`
+	return {
+		id: placeId,
+		name,
+		// OSM has no price levels, but some restaurants are tagged with $-$$$$
+		priceLevel: element.tags.price_range?.match(/^\${1,4}$/)
+			? element.tags.price_range.length
+			: null,
+		rating: null,
+		ratingCount: null,
+		primaryType: getPrimaryType(element.tags),
+		cuisines: getCuisines(element.tags),
+		...position,
+		photoRef: isHttpsUrl(element.tags.image) ? placeId : null,
+		mapsUrl: `https://www.openstreetmap.org/${placeId}`,
+		// OSM's opening_hours syntax is too free-form to rely on
+		openingHours: null,
+	}
+}
+
+function escapeRegExp(value: string) {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Uses OpenStreetMap data from the Overpass API. It's free and doesn't need a
+ * key, but OSM doesn't have ratings and rarely has prices or photos.
+ */
+export class OverpassPlacesProvider implements PlacesProvider {
+	async getNearbyRestaurants({
+		lat,
+		lng,
+		radius,
+	}: {
+		lat: number
+		lng: number
+		radius: number
+	}): Promise<Array<PlaceSummary>> {
+		const around = `(around:${Math.round(radius)},${lat},${lng})`
+		const elements = await query(
+			`[out:json][timeout:25];nwr["amenity"="restaurant"]["name"]${around};out center tags;`,
+		)
+
+		return elements.flatMap((element) => toPlaceSummary(element) ?? [])
+	}
+
+	async searchRestaurants({
+		query: search,
+		lat,
+		lng,
+		radius,
+	}: {
+		query: string
+		lat: number
+		lng: number
+		radius: number
+	}): Promise<Array<PlaceSummary>> {
+		// Overpass has no ranking, so only search around the point
+		const around = `(around:${Math.round(radius)},${lat},${lng})`
+		// Overpass QL strings are escaped the same way as JSON ones
+		const pattern = JSON.stringify(escapeRegExp(search))
+		const elements = await query(
+			`[out:json][timeout:25];(nwr["amenity"="restaurant"]["name"~${pattern},i]${around};nwr["amenity"="restaurant"]["name"]["cuisine"~${pattern},i]${around};);out center tags;`,
+		)
+		return elements.flatMap((element) => toPlaceSummary(element) ?? [])
+	}
+
+	/**
+	 * Overpass can't geocode, so this uses Nominatim, OpenStreetMap's geocoder
+	 */
+	async geocode({
+		query: search,
+		lat,
+		lng,
+	}: {
+		query: string
+		lat: number
+		lng: number
+	}): Promise<Array<GeocodeResult>> {
+		const url = new URL(getGeocodeUrl())
+		url.searchParams.set('q', search)
+		url.searchParams.set('format', 'jsonv2')
+		url.searchParams.set('limit', String(MAX_GEOCODE_RESULTS))
+		url.searchParams.set(
+			'viewbox',
+			[
+				lng - GEOCODE_VIEWBOX_SPAN,
+				lat + GEOCODE_VIEWBOX_SPAN,
+				lng + GEOCODE_VIEWBOX_SPAN,
+				lat - GEOCODE_VIEWBOX_SPAN,
+			].join(','),
+		)
+		// Nominatim's usage policy asks apps to identify themselves
+		const response = await fetch(url, {
+			headers: { 'User-Agent': 'Epic Notes dinner planner' },
+		})
+		if (!response.ok) {
+			throw new Error(`Nominatim API error: ${response.statusText}`)
+		}
+
+		const results = NominatimResponseSchema.parse(await response.json())
+		return results.map((result) => ({
+			id: `${result.osm_type}/${result.osm_id}`,
+			name: result.name || result.display_name.split(',')[0]!,
+			address: result.display_name,
+			lat: result.lat,
+			lng: result.lon,
+		}))
+	}
+
+	async getPlaceDetails(placeId: string): Promise<PlaceDetails | null> {
+		const element = await this.getElement(placeId)
+		if (!element?.tags.name) return null
+
+		return {
+			id: placeId,
+			name: element.tags.name,
+			address: getAddress(element.tags),
+			phoneNumber: element.tags.phone ?? element.tags['contact:phone'] ?? null,
+			website: element.tags.website ?? element.tags['contact:website'] ?? null,
+			mapsUrl: `https://www.openstreetmap.org/${placeId}`,
+			openingHours: null,
+			photoRefs: isHttpsUrl(element.tags.image) ? [placeId] : [],
+		}
+	}
+
+	async getPhoto(photoRef: string) {
+		// photoRef is the place ID, so we never fetch a URL the client gave us
+		const element = await this.getElement(photoRef)
+		const image = element?.tags.image
+		if (!isHttpsUrl(image)) {
+			return new Response('Not found', { status: 404 })
+		}
+		return fetch(image)
+	}
+
+	private async getElement(placeId: string) {
+		const parsed = parsePlaceId(placeId)
+		if (!parsed) return null
+		const [element] = await query(
+			`[out:json][timeout:25];${parsed.type}(${parsed.id});out tags;`,
+		)
+		return element ?? null
+	}
+}
@@ -0,0 +1,75 @@
+export type OpeningHoursPoint = {
+	day: number // 0 is Sunday
+	hour: number
+	minute: number
+}
+
+/**
+ * Weekly opening hours in the place's local time. A period without a close
+ * means it's open 24 hours.
+ */
+export type OpeningHours = {
+	periods: Array<{ open: OpeningHoursPoint; close?: OpeningHoursPoint }>
+}
+
+export type PlaceSummary = {
+	id: string
+	name: string
+	priceLevel: number | null // 1-4
+	rating: number | null // out of 5
+	ratingCount: number | null
+	// like "mexican_restaurant", see https://developers.google.com/maps/documentation/places/web-service/place-types
+	primaryType: string | null
+	// like "thai" or "pizza"
+	cuisines: Array<string>
+	lat: number
+	lng: number
+	// passed back to the provider's getPhoto
+	photoRef: string | null
+	mapsUrl: string | null
+	openingHours: OpeningHours | null
+}
+
+export type PlaceDetails = {
+	id: string
+	name: string
+	address: string | null
+	phoneNumber: string | null
+	website: string | null
+	mapsUrl: string | null
+	openingHours: OpeningHours | null
+	// a few photos for a gallery, passed back to the provider's getPhoto
+	photoRefs: Array<string>
+}
+
+// an address or landmark to search around
+export type GeocodeResult = {
+	id: string
+	name: string
+	address: string | null
+	lat: number
+	lng: number
+}
+
+export interface PlacesProvider {
+	getNearbyRestaurants(options: {
+		lat: number
+		lng: number
+		radius: number // in meters
+	}): Promise<Array<PlaceSummary>>
+	// restaurants matching a name or cuisine, preferring ones near the point
+	searchRestaurants(options: {
+		query: string
+		lat: number
+		lng: number
+		radius: number // in meters
+	}): Promise<Array<PlaceSummary>>
+	getPlaceDetails(placeId: string): Promise<PlaceDetails | null>
+	// addresses and landmarks matching a query, preferring ones near the point
+	geocode(options: {
+		query: string
+		lat: number
+		lng: number
+	}): Promise<Array<GeocodeResult>>
+	getPhoto(photoRef: string, options: { maxWidth: number }): Promise<Response>
+}
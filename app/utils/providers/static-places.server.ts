@@ -0,0 +1,183 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+import { invariant } from '@epic-web/invariant'
+import { lookup as getMimeType } from 'mime-types'
+import { z } from 'zod'
+import { getDistanceInMeters } from '../distance.ts'
+import { OpeningHoursSchema } from '../opening-hours.ts'
+import {
+	type GeocodeResult,
+	type PlaceDetails,
+	type PlaceSummary,
+	type PlacesProvider,
+} from './places-provider.ts'
+
+const StaticPlaceSchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	lat: z.number(),
+	lng: z.number(),
+	priceLevel: z.number().int().min(1).max(4).nullable().default(null),
+	rating: z.number().min(0).max(5).nullable().default(null),
+	ratingCount: z.number().int().min(0).nullable().default(null),
+	primaryType: z.string().nullable().default(null),
+	// like "thai" or "pizza"
+	cuisines: z.array(z.string()).default([]),
+	address: z.string().nullable().default(null),
+	phoneNumber: z.string().nullable().default(null),
+	website: z.string().nullable().default(null),
+	mapsUrl: z.string().nullable().default(null),
+	// relative to the JSON file
+	photo: z.string().nullable().default(null),
+	openingHours: OpeningHoursSchema.nullable().default(null),
+})
+
+const StaticPlacesFileSchema = z.object({
+	restaurants: z.array(StaticPlaceSchema),
+})
+
+type StaticPlace = z.infer<typeof StaticPlaceSchema>
+
+function getFilePath() {
+	const filePath = process.env.PLACES_STATIC_FILE
+	invariant(filePath, 'PLACES_STATIC_FILE must be set')
+	return path.resolve(filePath)
+}
+
+async function readPlaces() {
+	const contents = await fs.readFile(getFilePath(), 'utf-8')
+	return StaticPlacesFileSchema.parse(JSON.parse(contents)).restaurants
+}
+
+function toSummary(place: StaticPlace): PlaceSummary {
+	return {
+		id: place.id,
+		name: place.name,
+		priceLevel: place.priceLevel,
+		rating: place.rating,
+		ratingCount: place.ratingCount,
+		primaryType: place.primaryType,
+		cuisines: place.cuisines,
+		lat: place.lat,
+		lng: place.lng,
+		photoRef: place.photo ? place.id : null,
+		mapsUrl: place.mapsUrl,
+		openingHours: place.openingHours,
+	}
+}
+
+/**
+ * Reads restaurants from a JSON file (see PLACES_STATIC_FILE) so an event can
+ * run without any places API, like at a venue with unreliable internet
+ */
+export class StaticPlacesProvider implements PlacesProvider {
+	async getNearbyRestaurants({
+		lat,
+		lng,
+		radius,
+	}: {
+		lat: number
+		lng: number
+		radius: number
+	}): Promise<Array<PlaceSummary>> {
+		const places = await readPlaces()
+		return places
+			.filter((place) => getDistanceInMeters({ lat, lng }, place) <= radius)
+			.map(toSummary)
+	}
+
+	async searchRestaurants({
+		query,
+		lat,
+		lng,
+		radius,
+	}: {
+		query: string
+		lat: number
+		lng: number
+		radius: number
+	}): Promise<Array<PlaceSummary>> {
+		const search = query.toLowerCase()
+		const places = await readPlaces()
+		return places
+			.filter(
+				(place) =>
+					getDistanceInMeters({ lat, lng }, place) <= radius &&
+					[place.name, ...place.cuisines].some((value) =>
+						value.toLowerCase().includes(search),
+					),
+			)
+			.map(toSummary)
+	}
+
+	/**
+	 * There's nothing to geocode with offline, but the restaurants in the file
+	 * make good landmarks
+	 */
+	async geocode({
+		query,
+		lat,
+		lng,
+	}: {
+		query: string
+		lat: number
+		lng: number
+	}): Promise<Array<GeocodeResult>> {
+		const search = query.toLowerCase()
+		const places = await readPlaces()
+		return places
+			.filter((place) =>
+				[place.name, place.address].some((value) =>
+					value?.toLowerCase().includes(search),
+				),
+			)
+			.sort(
+				(a, b) =>
+					getDistanceInMeters({ lat, lng }, a) -
+					getDistanceInMeters({ lat, lng }, b),
+			)
+			.slice(0, 5)
+			.map((place) => ({
+				id: place.id,
+				name: place.name,
+				address: place.address,
+				lat: place.lat,
+				lng: place.lng,
+			}))
+	}
+
+	async getPlaceDetails(placeId: string): Promise<PlaceDetails | null> {
+		const places = await readPlaces()
+		const place = places.find((p) => p.id === placeId)
+		if (!place) return null
+
+		return {
+			id: place.id,
+			name: place.name,
+			address: place.address,
+			phoneNumber: place.phoneNumber,
+			website: place.website,
+			mapsUrl: place.mapsUrl,
+			openingHours: place.openingHours,
+			photoRefs: place.photo ? [place.id] : [],
+		}
+	}
+
+	async getPhoto(photoRef: string) {
+		// photoRef is the place ID, so we only serve photos listed in the file
+		const places = await readPlaces()
+		const photo = places.find((p) => p.id === photoRef)?.photo
+		if (!photo) return new Response('Not found', { status: 404 })
+
+		const photoPath = path.resolve(path.dirname(getFilePath()), photo)
+		const file = await fs.readFile(photoPath).catch(() => null)
+		if (!file) return new Response('Not found', { status: 404 })
+
+		return new Response(file, {
+			headers: {
+				'Content-Type': getMimeType(photoPath) || 'application/octet-stream',
+				'Content-Length': file.length.toString(),
+			},
+		})
+	}
+}
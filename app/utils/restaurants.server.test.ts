@@ -0,0 +1,588 @@
+import { faker } from '@faker-js/faker'
+import { http, HttpResponse } from 'msw'
+import { expect, test, vi } from 'vitest'
+import { prisma } from '#app/utils/db.server.ts'
+import { createEvent, createRestaurant, createUser } from '#tests/db-utils.ts'
+import { server } from '#tests/mocks/index.ts'
+import { requireEmail } from '#tests/mocks/utils.ts'
+import { consoleError } from '#tests/setup/setup-test-env.ts'
+import {
+	getAllRestaurantDetails,
+	joinDinnerGroup,
+	leaveDinnerGroup,
+	removeDinnerGroupAttendee,
+	setDinnerGroupCapacity,
+	transferDinnerGroupHost,
+	updateDinnerGroupPlans,
+	updateDinnerGroupReservation,
+} from './restaurants.server.ts'
+
+const date = new Date('2025-03-20T00:00:00.000Z')
+
+async function setupDinner({ userCount }: { userCount: number }) {
+	const event = await prisma.event.create({ data: createEvent(date) })
+	const restaurant = await prisma.restaurant.create({
+		data: createRestaurant(),
+	})
+	const users = await Promise.all(
+		Array.from({ length: userCount }, () =>
+			prisma.user.create({
+				select: { id: true, email: true },
+				data: createUser(),
+			}),
+		),
+	)
+	const join = (
+		userId: string,
+		options?: { dinnerGroupId?: string; waitlist?: boolean },
+	) =>
+		joinDinnerGroup({
+			userId,
+			eventId: event.id,
+			restaurantId: restaurant.id,
+			date,
+			...options,
+		})
+	return { event, restaurant, users, join }
+}
+
+test('concurrent joins to the same restaurant share one dinner group', async () => {
+	const { users, join } = await setupDinner({ userCount: 5 })
+
+	const results = await Promise.all(users.map((user) => join(user.id)))
+
+	const dinnerGroups = await prisma.dinnerGroup.findMany({
+		include: { _count: { select: { attendees: true } } },
+	})
+	expect(dinnerGroups).toHaveLength(1)
+	expect(dinnerGroups[0]?._count.attendees).toBe(5)
+	for (const result of results) {
+		expect(result).toEqual({
+			status: 'joined',
+			dinnerGroupId: dinnerGroups[0]?.id,
+		})
+	}
+})
+
+test('interleaved joins and leaves never leave an empty dinner group', async () => {
+	const { users, join } = await setupDinner({ userCount: 4 })
+	const [first, second, ...rest] = users
+	await join(first!.id)
+
+	await Promise.all([
+		leaveDinnerGroup({ userId: first!.id, date }),
+		join(second!.id),
+		...rest.map((user) => join(user.id)),
+		leaveDinnerGroup({ userId: second!.id, date }),
+	])
+
+	const dinnerGroups = await prisma.dinnerGroup.findMany({
+		include: { attendees: true },
+	})
+	for (const dinnerGroup of dinnerGroups) {
+		expect(dinnerGroup.attendees.length).toBeGreaterThan(0)
+	}
+	const attendees = await prisma.attendee.findMany()
+	expect(attendees.map((attendee) => attendee.dinnerGroupId)).toEqual(
+		attendees.map(() => dinnerGroups[0]?.id),
+	)
+})
+
+test('concurrent joins past capacity go to the waitlist in order', async () => {
+	const { users, join } = await setupDinner({ userCount: 5 })
+	const [creator, ...others] = users
+	const created = await join(creator!.id)
+	invariantJoined(created)
+	await setDinnerGroupCapacity({
+		userId: creator!.id,
+		dinnerGroupId: created.dinnerGroupId,
+		maxPartySize: 3,
+	})
+
+	const results = await Promise.all(others.map((user) => join(user.id)))
+
+	expect(results.filter((r) => r.status === 'joined')).toHaveLength(2)
+	const positions = results.flatMap((r) =>
+		r.status === 'waitlisted' ? [r.position] : [],
+	)
+	expect(positions.sort()).toEqual([1, 2])
+
+	const attending = await prisma.attendee.count({
+		where: { status: 'attending' },
+	})
+	expect(attending).toBe(3)
+
+	// leaving frees a seat for the front of the waitlist
+	const nextUp = await prisma.attendee.findFirstOrThrow({
+		where: { status: 'waitlisted' },
+		orderBy: { createdAt: 'asc' },
+		include: { user: { select: { email: true } } },
+	})
+	await leaveDinnerGroup({ userId: creator!.id, date })
+	const promoted = await prisma.attendee.findUniqueOrThrow({
+		where: { id: nextUp.id },
+	})
+	expect(promoted.status).toBe('attending')
+	const email = await requireEmail(nextUp.user.email)
+	expect(email.subject).toMatch(/off the waitlist/)
+})
+
+test('joining a group that has since dissolved is a conflict', async () => {
+	const { users, join } = await setupDinner({ userCount: 2 })
+	const [first, second] = users
+	const created = await join(first!.id)
+	invariantJoined(created)
+	await leaveDinnerGroup({ userId: first!.id, date })
+
+	const result = await join(second!.id, {
+		dinnerGroupId: created.dinnerGroupId,
+	})
+
+	expect(result).toEqual({ status: 'conflict', reason: 'group-dissolved' })
+	expect(await prisma.dinnerGroup.count()).toBe(0)
+})
+
+test('joining a full group without the waitlist is a conflict that keeps your old plans', async () => {
+	const { users, join, event } = await setupDinner({ userCount: 3 })
+	const [creator, other, latecomer] = users
+	const created = await join(creator!.id)
+	invariantJoined(created)
+	await setDinnerGroupCapacity({
+		userId: creator!.id,
+		dinnerGroupId: created.dinnerGroupId,
+		maxPartySize: 2,
+	})
+	await join(other!.id)
+
+	const otherRestaurant = await prisma.restaurant.create({
+		data: {
+			...createRestaurant(),
+			name: 'Elsewhere',
+			lat: 40.7,
+			lng: -111.9,
+		},
+	})
+	const elsewhere = await joinDinnerGroup({
+		userId: latecomer!.id,
+		eventId: event.id,
+		restaurantId: otherRestaurant.id,
+		date,
+	})
+	invariantJoined(elsewhere)
+
+	const result = await join(latecomer!.id, { waitlist: false })
+
+	expect(result).toEqual({ status: 'conflict', reason: 'group-full' })
+	const attendee = await prisma.attendee.findUniqueOrThrow({
+		where: { userId_date: { userId: latecomer!.id, date } },
+	})
+	expect(attendee.dinnerGroupId).toBe(elsewhere.dinnerGroupId)
+})
+
+test('events on the same night have their own dinner groups at a restaurant', async () => {
+	const { users, join, restaurant } = await setupDinner({ userCount: 2 })
+	const [first, second] = users
+	const otherEvent = await prisma.event.create({ data: createEvent(date) })
+
+	const joined = await join(first!.id)
+	const joinedOther = await joinDinnerGroup({
+		userId: second!.id,
+		eventId: otherEvent.id,
+		restaurantId: restaurant.id,
+		date,
+	})
+
+	invariantJoined(joined)
+	invariantJoined(joinedOther)
+	expect(joinedOther.dinnerGroupId).not.toBe(joined.dinnerGroupId)
+})
+
+test('leaving without a dinner group is a conflict', async () => {
+	const { users } = await setupDinner({ userCount: 1 })
+
+	const result = await leaveDinnerGroup({ userId: users[0]!.id, date })
+
+	expect(result).toEqual({ status: 'conflict', reason: 'not-attending' })
+})
+
+test('the first to join hosts, and leaving passes it to the next-earliest attendee', async () => {
+	const { users, join } = await setupDinner({ userCount: 3 })
+	const [first, second, third] = users
+	const created = await join(first!.id)
+	invariantJoined(created)
+	await join(second!.id)
+	await join(third!.id)
+	const getHostId = async () =>
+		(
+			await prisma.dinnerGroup.findUniqueOrThrow({
+				where: { id: created.dinnerGroupId },
+			})
+		).hostId
+	const getAttendeeId = async (userId: string) =>
+		(
+			await prisma.attendee.findUniqueOrThrow({
+				where: { userId_date: { userId, date } },
+			})
+		).id
+	expect(await getHostId()).toBe(first!.id)
+
+	const transferred = await transferDinnerGroupHost({
+		userId: first!.id,
+		dinnerGroupId: created.dinnerGroupId,
+		attendeeId: await getAttendeeId(third!.id),
+	})
+	expect(transferred.status).toBe('updated')
+	expect(await getHostId()).toBe(third!.id)
+
+	const left = await leaveDinnerGroup({ userId: third!.id, date })
+	expect(left).toMatchObject({ status: 'left', dissolved: false })
+	expect(await getHostId()).toBe(first!.id)
+})
+
+test('only the host can change plans or remove people', async () => {
+	const { users, join } = await setupDinner({ userCount: 2 })
+	const [host, guest] = users
+	const created = await join(host!.id)
+	invariantJoined(created)
+	await join(guest!.id)
+	const { dinnerGroupId } = created
+	const guestAttendee = await prisma.attendee.findUniqueOrThrow({
+		where: { userId_date: { userId: guest!.id, date } },
+	})
+	const plans = {
+		dinnerGroupId,
+		meetingPoint: 'Hilton lobby',
+		departureTime: '18:30',
+		notes: 'Bring cash',
+	}
+
+	expect(await updateDinnerGroupPlans({ userId: guest!.id, ...plans })).toEqual(
+		{ status: 'conflict', reason: 'not-host' },
+	)
+	expect(
+		await removeDinnerGroupAttendee({
+			userId: guest!.id,
+			dinnerGroupId,
+			attendeeId: guestAttendee.id,
+		}),
+	).toEqual({ status: 'conflict', reason: 'not-host' })
+
+	await updateDinnerGroupPlans({ userId: host!.id, ...plans })
+	expect(
+		await prisma.dinnerGroup.findUniqueOrThrow({
+			where: { id: dinnerGroupId },
+		}),
+	).toMatchObject({
+		meetingPoint: 'Hilton lobby',
+		departureTime: '18:30',
+		notes: 'Bring cash',
+	})
+
+	await removeDinnerGroupAttendee({
+		userId: host!.id,
+		dinnerGroupId,
+		attendeeId: guestAttendee.id,
+	})
+	expect(
+		await prisma.attendee.findUnique({ where: { id: guestAttendee.id } }),
+	).toBeNull()
+	expect(
+		await transferDinnerGroupHost({
+			userId: host!.id,
+			dinnerGroupId,
+			attendeeId: guestAttendee.id,
+		}),
+	).toEqual({ status: 'conflict', reason: 'not-in-group' })
+})
+
+test('only the host or whoever booked can change a reservation', async () => {
+	const { event, restaurant, users, join } = await setupDinner({
+		userCount: 3,
+	})
+	const [host, booker, other] = users
+	const created = await join(host!.id)
+	invariantJoined(created)
+	await join(booker!.id)
+	await join(other!.id)
+	const { dinnerGroupId } = created
+	const reservation = {
+		status: 'confirmed',
+		time: '19:30',
+		partySize: 2,
+		name: 'Booker',
+		code: 'ABC123',
+	} as const
+
+	await updateDinnerGroupReservation({
+		userId: booker!.id,
+		dinnerGroupId,
+		reservation,
+	})
+	expect(
+		await updateDinnerGroupReservation({
+			userId: other!.id,
+			dinnerGroupId,
+			reservation: null,
+		}),
+	).toEqual({ status: 'conflict', reason: 'not-booker' })
+	await updateDinnerGroupReservation({
+		userId: host!.id,
+		dinnerGroupId,
+		reservation: { ...reservation, time: '20:00' },
+	})
+	expect(
+		await prisma.dinnerGroup.findUniqueOrThrow({
+			where: { id: dinnerGroupId },
+		}),
+	).toMatchObject({ reservationTime: '20:00', reservedById: booker!.id })
+
+	const origin = getRandomOrigin()
+	const { restaurants } = await getAllRestaurantDetails({
+		userId: host!.id,
+		event,
+		date,
+		userLat: origin.lat,
+		userLng: origin.lng,
+	})
+	// three people are going to a table for two
+	expect(restaurants.find((r) => r.id === restaurant.id)).toMatchObject({
+		reservation: { ...reservation, time: '20:00' },
+		canEditReservation: true,
+		isOverReservation: true,
+	})
+})
+
+test('without a max party size, the reservation sets how many can go', async () => {
+	const { users, join } = await setupDinner({ userCount: 3 })
+	const [host, guest, latecomer] = users
+	const created = await join(host!.id)
+	invariantJoined(created)
+	await join(guest!.id)
+	const reservation = {
+		status: 'confirmed',
+		time: '19:30',
+		partySize: 2,
+		name: 'Host',
+		code: null,
+	} as const
+	await updateDinnerGroupReservation({
+		userId: host!.id,
+		dinnerGroupId: created.dinnerGroupId,
+		reservation,
+	})
+
+	expect(await join(latecomer!.id)).toMatchObject({
+		status: 'waitlisted',
+		position: 1,
+	})
+
+	// a bigger table makes room for them
+	await updateDinnerGroupReservation({
+		userId: host!.id,
+		dinnerGroupId: created.dinnerGroupId,
+		reservation: { ...reservation, partySize: 3 },
+	})
+	const attendee = await prisma.attendee.findUniqueOrThrow({
+		where: { userId_date: { userId: latecomer!.id, date } },
+	})
+	expect(attendee.status).toBe('attending')
+	await requireEmail(latecomer!.email)
+})
+
+test('serves smaller radii from a cached search of a bigger one', async () => {
+	const { event, users } = await setupDinner({ userCount: 1 })
+	// the search cache outlives the test database, so search somewhere new
+	const origin = getRandomOrigin()
+	const searches = countSearches()
+
+	await getAllRestaurantDetails({
+		userId: users[0]!.id,
+		event,
+		date,
+		userLat: origin.lat,
+		userLng: origin.lng,
+		radius: 8047,
+	})
+	const searchCount = searches.count
+	expect(searchCount).toBeGreaterThan(0)
+
+	const { restaurants } = await getAllRestaurantDetails({
+		userId: users[0]!.id,
+		event,
+		date,
+		userLat: origin.lat,
+		userLng: origin.lng,
+		radius: 1600,
+	})
+
+	expect(searches.count).toBe(searchCount)
+	expect(restaurants.length).toBeGreaterThan(0)
+	for (const restaurant of restaurants) {
+		expect(restaurant.distance).toBeLessThanOrEqual(1)
+	}
+	searches.stop()
+})
+
+test('falls back to stored restaurants when the places provider fails', async () => {
+	const { event, users } = await setupDinner({ userCount: 1 })
+	const origin = getRandomOrigin()
+	const nearby = await prisma.restaurant.create({
+		data: {
+			...createRestaurant(),
+			name: 'Nearby',
+			lat: origin.lat + 0.001,
+			lng: origin.lng,
+		},
+	})
+	await prisma.restaurant.create({
+		data: {
+			...createRestaurant(),
+			name: 'Far away',
+			lat: origin.lat + 0.5,
+			lng: origin.lng,
+		},
+	})
+	server.use(
+		http.post('https://places.googleapis.com/v1/places\\:searchNearby', () =>
+			HttpResponse.json(
+				{ error: { code: 503, status: 'UNAVAILABLE', message: 'Try again' } },
+				{ status: 503 },
+			),
+		),
+	)
+	consoleError.mockImplementation(() => {})
+	const consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+	const result = await getAllRestaurantDetails({
+		userId: users[0]!.id,
+		event,
+		date,
+		userLat: origin.lat,
+		userLng: origin.lng,
+	})
+
+	expect(result.isStale).toBe(true)
+	expect(result.lastUpdatedAt).toEqual(nearby.updatedAt)
+	expect(result.restaurants.map((r) => r.id)).toEqual([nearby.id])
+	expect(consoleWarn).toHaveBeenCalledWith(
+		'Falling back to stored restaurants:',
+		expect.any(Error),
+	)
+	consoleWarn.mockRestore()
+})
+
+test('searches stored restaurants first, then the places provider', async () => {
+	const { event, users } = await setupDinner({ userCount: 1 })
+	const origin = getRandomOrigin()
+	const stored = await prisma.restaurant.create({
+		data: {
+			...createRestaurant(),
+			name: 'Somewhere',
+			lat: origin.lat + 0.001,
+			lng: origin.lng,
+			cuisines: {
+				connectOrCreate: {
+					where: { name: 'ethiopian' },
+					create: { name: 'ethiopian', label: 'Ethiopian' },
+				},
+			},
+		},
+	})
+	const search = (query: string) =>
+		getAllRestaurantDetails({
+			userId: users[0]!.id,
+			event,
+			date,
+			userLat: origin.lat,
+			userLng: origin.lng,
+			search: query,
+		})
+
+	const byCuisine = await search('ethiop')
+	expect(byCuisine.restaurants.map((r) => r.id)).toEqual([stored.id])
+
+	const hiddenGemId = faker.string.uuid()
+	server.use(
+		http.post('https://places.googleapis.com/v1/places\\:searchText', () =>
+			HttpResponse.json({
+				places: [
+					{
+						id: hiddenGemId,
+						displayName: { text: 'Hidden Gem' },
+						location: { latitude: origin.lat, longitude: origin.lng },
+					},
+				],
+			}),
+		),
+	)
+
+	const byName = await search('hidden gem')
+	expect(byName.restaurants).toEqual([
+		expect.objectContaining({ id: hiddenGemId, matchesSearch: true }),
+	])
+	// stored so people can join it
+	expect(
+		await prisma.restaurant.findUnique({ where: { id: hiddenGemId } }),
+	).toMatchObject({ name: 'Hidden Gem' })
+})
+
+test('shows who is attending, hiding anonymous diners from everyone else', async () => {
+	const { event, restaurant, users, join } = await setupDinner({
+		userCount: 2,
+	})
+	const [named, anonymous] = users
+	await prisma.user.update({
+		where: { id: anonymous!.id },
+		data: { anonymousDiner: true },
+	})
+	invariantJoined(await join(named!.id))
+	invariantJoined(await join(anonymous!.id))
+	const origin = getRandomOrigin()
+	const getDiners = async (userId: string) => {
+		const { restaurants } = await getAllRestaurantDetails({
+			userId,
+			event,
+			date,
+			userLat: origin.lat,
+			userLng: origin.lng,
+		})
+		return restaurants.find((r) => r.id === restaurant.id)?.diners
+	}
+
+	const seenByNamed = await getDiners(named!.id)
+	expect(seenByNamed).toEqual([
+		expect.objectContaining({ id: named!.id, isAnonymous: false }),
+		{ attendeeId: expect.any(String), isHost: false, isAnonymous: true },
+	])
+	expect(seenByNamed?.[1]).not.toHaveProperty('id')
+
+	expect(await getDiners(anonymous!.id)).toEqual([
+		expect.objectContaining({ id: named!.id, isAnonymous: false }),
+		expect.objectContaining({ id: anonymous!.id, isAnonymous: false }),
+	])
+})
+
+function getRandomOrigin() {
+	return {
+		lat: faker.location.latitude({ min: -60, max: 60 }),
+		lng: faker.location.longitude({ min: -170, max: 170 }),
+	}
+}
+
+function countSearches() {
+	const searches = { count: 0, stop }
+	function onRequest({ request }: { request: Request }) {
+		if (request.url.endsWith('places:searchNearby')) searches.count++
+	}
+	function stop() {
+		server.events.removeListener('request:start', onRequest)
+	}
+	server.events.on('request:start', onRequest)
+	return searches
+}
+
+function invariantJoined<Result extends { status: string }>(
+	result: Result,
+): asserts result is Extract<Result, { status: 'joined' }> {
+	expect(result.status).toBe('joined')
+}
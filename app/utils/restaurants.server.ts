@@ -1,24 +1,107 @@
-import { cachified, lruCache } from '#app/utils/cache.server'
+import { remember } from '@epic-web/remember'
+// Same import path as db.server, see https://github.com/remix-run/react-router/pull/12644
+import { Prisma } from '@prisma/client/index.js'
+import { createElement } from 'react'
+import { publishAttendanceEvents, type AttendanceEvent } from '#app/utils/attendance-events.server'
+import { cachified, lruAndSqliteCache } from '#app/utils/cache.server'
+import { CircuitBreaker } from '#app/utils/circuit-breaker.server'
 import { prisma } from '#app/utils/db.server'
-import { getNearbyRestaurants } from '#app/utils/providers/google-places.server'
+import { getDistanceInMeters } from '#app/utils/distance'
+import { sendEmail } from '#app/utils/email.server'
+import { dateToNight } from '#app/utils/events.server'
+import { decodeGeohash, encodeGeohash } from '#app/utils/geohash'
+import { parseOpeningHours } from '#app/utils/opening-hours'
+import { getPlacesProvider } from '#app/utils/places.server'
+import { type OpeningHours, type PlaceDetails, type PlaceSummary } from '#app/utils/providers/places-provider'
+import { WaitlistPromotionEmail } from '#app/utils/waitlist-email.server'
 
 // Constants
 const CACHE_TTL = 1000 * 60 * 60 * 24 // 24 hours
+const CACHE_SWR = 1000 * 60 * 60 * 24 * 7 // 7 days
 const DEFAULT_RADIUS = 1600 // 1 mile in meters
+export const ATTENDING = 'attending'
+const WAITLISTED = 'waitlisted'
+const NO_RESERVATION = 'none'
+const METERS_PER_MILE = 1609.34
+
+// Searches are cached per geohash cell and radius tier so nearby origins and
+// similar radii share them. The tiers match the distance filters (1, 2, 5 and
+// 10 miles), and bigger tiers use bigger cells.
+const RADIUS_TIERS = [
+  { radius: 1609, precision: 7 },
+  { radius: 3219, precision: 7 },
+  { radius: 8047, precision: 6 },
+  { radius: 16093, precision: 6 },
+]
+
+// Stop calling the places provider for a minute after three failures in a row
+const placesCircuit = remember(
+  'places-circuit-breaker',
+  () => new CircuitBreaker('places provider', {
+    failureThreshold: 3,
+    resetTimeout: 1000 * 60,
+  }),
+)
 
 // Types
+export type DinerProfile =
+  | {
+      id: string
+      isAnonymous: false
+      name: string | null
+      username: string
+      image: { objectKey: string } | null
+    }
+  // no user id, so they can't be traced
+  | { isAnonymous: true }
+
+export type Diner = {
+  attendeeId: string
+  isHost: boolean
+} & DinerProfile
+
+export type ReservationStatus = 'requested' | 'confirmed'
+
+export type Reservation = {
+  status: ReservationStatus
+  time: string | null // "HH:MM" in the venue's timezone
+  partySize: number | null
+  name: string | null // who the table is booked under
+  code: string | null // the confirmation code, only shown to the group
+}
+
 export type RestaurantWithDetails = {
   id: string
   name: string
   priceLevel: number | null
   rating: number | null
+  ratingCount: number | null
+  primaryType: string | null
+  cuisines: Array<{ name: string; label: string }>
   lat: number
   lng: number
   photoRef: string | null
   mapsUrl: string | null
+  openingHours: OpeningHours | null
   distance: number // in miles
-  attendeeCount: number
+  dinnerGroupId: string | null
+  maxPartySize: number | null // as the host set it
+  capacity: number | null // the max party size, or else the reservation's
+  attendeeCount: number // does not include the waitlist
+  diners: Diner[] // who is attending, in the order they joined
+  waitlistCount: number
+  isFull: boolean
+  meetingPoint: string | null
+  departureTime: string | null // "HH:MM" in the venue's timezone
+  notes: string | null
+  reservation: Reservation | null
+  canEditReservation: boolean // the host, whoever booked, or anyone if nobody has
+  isOverReservation: boolean // more people are going than the table is for
   isUserAttending: boolean
+  isUserWaitlisted: boolean
+  userWaitlistPosition: number | null // 1-based
+  isUserHost: boolean
+  matchesSearch: boolean // always true without a search
 }
 
 /**
@@ -30,85 +113,493 @@ function calculateDistance(
   lat2: number,
   lng2: number,
 ): number {
-  // Haversine formula
-  const R = 3958.8 // Earth's radius in miles
-  const dLat = (lat2 - lat1) * (Math.PI / 180)
-  const dLng = (lng2 - lng1) * (Math.PI / 180)
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * (Math.PI / 180)) *
-      Math.cos(lat2 * (Math.PI / 180)) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-  const distance = R * c
+  const distance = getDistanceInMeters(
+    { lat: lat1, lng: lng1 },
+    { lat: lat2, lng: lng2 },
+  ) / METERS_PER_MILE
   return Math.round(distance * 10) / 10 // Round to 1 decimal place
 }
 
 /**
- * Fetches restaurants from Google Places API and caches them in the database
+ * Turns a cuisine like "middle_eastern" into a label like "Middle Eastern"
+ */
+function getCuisineLabel(name: string) {
+  return name
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Fetches restaurants from the places provider and caches them in the database
  */
 async function fetchAndCacheRestaurants(lat: number, lng: number, radius: number) {
-  const restaurants = await getNearbyRestaurants({ lat, lng, radius })
+  const places = await placesCircuit.run(() =>
+    getPlacesProvider().getNearbyRestaurants({ lat, lng, radius }),
+  )
+  return saveRestaurants(places)
+}
+
+/**
+ * Stores places from the places provider, so people can join them and we can
+ * fall back to them
+ */
+async function saveRestaurants(places: PlaceSummary[]) {
+  // Providers can return the same place more than once, which would make the
+  // parallel upserts race each other
+  const restaurants = [
+    ...new Map(places.map(place => [place.id, place])).values(),
+  ]
+
+  // Create the cuisines first so the restaurants can all connect to them
+  // without racing to create the same one
+  const cuisineNames = [...new Set(restaurants.flatMap(restaurant => restaurant.cuisines))]
+  await Promise.all(
+    cuisineNames.map(name =>
+      prisma.cuisine.upsert({
+        where: { name },
+        create: { name, label: getCuisineLabel(name) },
+        update: {},
+      }),
+    ),
+  )
 
   // Upsert restaurants in parallel
   await Promise.all(
-    restaurants.map(restaurant =>
-      prisma.restaurant.upsert({
+    restaurants.map(({ openingHours, cuisines, ...place }) => {
+      const restaurant = {
+        ...place,
+        openingHours: openingHours ? JSON.stringify(openingHours) : null,
+      }
+      const cuisineIds = cuisines.map(name => ({ name }))
+      return prisma.restaurant.upsert({
         where: { id: restaurant.id },
-        create: restaurant,
+        create: { ...restaurant, cuisines: { connect: cuisineIds } },
         update: {
           ...restaurant,
+          cuisines: { set: cuisineIds },
           updatedAt: new Date(),
         },
-      }),
-    ),
+      })
+    }),
   )
 
   return restaurants
 }
 
 /**
- * Gets all restaurants from the database
+ * Gets the restaurants already stored within a radius (in meters) of a point
+ */
+async function getRestaurantsFromDB(
+  lat: number,
+  lng: number,
+  radius: number,
+  where: Prisma.RestaurantWhereInput = {},
+) {
+  // Narrow it down to a bounding box in the query, then to the circle
+  const latSpan = radius / 111_320
+  const lngSpan = latSpan / Math.cos(lat * (Math.PI / 180))
+  const restaurants = await prisma.restaurant.findMany({
+    where: {
+      ...where,
+      lat: { gte: lat - latSpan, lte: lat + latSpan },
+      lng: { gte: lng - lngSpan, lte: lng + lngSpan },
+    },
+  })
+  return restaurants.filter(restaurant =>
+    getDistanceInMeters({ lat, lng }, restaurant) <= radius,
+  )
+}
+
+type CachedRestaurants = Awaited<ReturnType<typeof fetchAndCacheRestaurants>>
+
+/**
+ * Gets the cache key and search area for the cell a point is in. The search
+ * is centered on the cell and reaches far enough to cover the tier's radius
+ * from anywhere in it.
  */
-async function getRestaurantsFromDB() {
-  return prisma.restaurant.findMany()
+function getSearchBucket(
+  lat: number,
+  lng: number,
+  tier: (typeof RADIUS_TIERS)[number],
+) {
+  const geohash = encodeGeohash(lat, lng, tier.precision)
+  const cell = decodeGeohash(geohash)
+  const halfDiagonal = getDistanceInMeters(
+    cell.center,
+    { lat: cell.north, lng: cell.east },
+  )
+  return {
+    key: `restaurants:${geohash}:${tier.radius}`,
+    lat: cell.center.lat,
+    lng: cell.center.lng,
+    radius: Math.ceil(tier.radius + halfDiagonal),
+  }
 }
 
 /**
- * Gets all restaurants with attendance counts
+ * Gets the restaurants within a radius of a point from the cached search of
+ * its bucket, searching (and caching) it if we haven't yet. If there's a fresh
+ * search of a bigger tier around here, we filter that instead. Radii beyond
+ * the biggest tier are capped to it.
  */
-async function getRestaurantsWithAttendance(userId: string) {
+async function getCachedRestaurants(lat: number, lng: number, radius: number) {
+  const tierIndex = RADIUS_TIERS.findIndex(tier => tier.radius >= radius)
+  const [tier, ...biggerTiers] = RADIUS_TIERS.slice(
+    tierIndex === -1 ? -1 : tierIndex,
+  )
+
+  let restaurants: CachedRestaurants | null = null
+  for (const biggerTier of biggerTiers) {
+    const entry = await lruAndSqliteCache.get(getSearchBucket(lat, lng, biggerTier).key)
+    if (
+      entry &&
+      Array.isArray(entry.value) &&
+      entry.metadata.createdTime + (entry.metadata.ttl ?? Infinity) > Date.now()
+    ) {
+      restaurants = entry.value as CachedRestaurants
+      break
+    }
+  }
+
+  if (!restaurants) {
+    const bucket = getSearchBucket(lat, lng, tier!)
+    restaurants = await cachified({
+      key: bucket.key,
+      cache: lruAndSqliteCache,
+      ttl: CACHE_TTL,
+      swr: CACHE_SWR,
+      getFreshValue: async () => {
+        return fetchAndCacheRestaurants(bucket.lat, bucket.lng, bucket.radius)
+      },
+      checkValue: (value: unknown) => Array.isArray(value),
+    })
+  }
+
+  return restaurants.filter(restaurant =>
+    getDistanceInMeters({ lat, lng }, restaurant) <= radius,
+  )
+}
+
+/**
+ * Gets nearby restaurants from the places provider (cached), or if it's
+ * failing, the ones we already have stored near there
+ */
+async function getNearbyRestaurants(lat: number, lng: number, radius: number) {
+  try {
+    const restaurants = await getCachedRestaurants(lat, lng, radius)
+    return { restaurants, isStale: false, lastUpdatedAt: null }
+  } catch (error) {
+    console.warn('Falling back to stored restaurants:', error)
+    const restaurants = await getRestaurantsFromDB(lat, lng, radius)
+    // When we last heard from the provider about any of them
+    const updatedAt = restaurants.map(restaurant => restaurant.updatedAt.getTime())
+    return {
+      restaurants,
+      isStale: true,
+      lastUpdatedAt: updatedAt.length ? new Date(Math.max(...updatedAt)) : null,
+    }
+  }
+}
+
+/**
+ * Finds the stored restaurants within a radius whose name or cuisine matches a
+ * search. If none do, asks the places provider (cached per area and search),
+ * since the nearby search only stores the most popular places.
+ */
+async function searchRestaurants(search: string, lat: number, lng: number, radius: number) {
+  // contains is case-insensitive for ASCII in SQLite
+  const stored = await getRestaurantsFromDB(lat, lng, radius, {
+    OR: [
+      { name: { contains: search } },
+      { cuisines: { some: { label: { contains: search } } } },
+    ],
+  })
+  if (stored.length) return stored
+
+  const geohash = encodeGeohash(lat, lng, RADIUS_TIERS[0]!.precision)
+  try {
+    const restaurants = await cachified({
+      key: `restaurant-search:${geohash}:${Math.round(radius)}:${search.toLowerCase()}`,
+      cache: lruAndSqliteCache,
+      ttl: CACHE_TTL,
+      getFreshValue: async () => {
+        const places = await placesCircuit.run(() =>
+          getPlacesProvider().searchRestaurants({ query: search, lat, lng, radius }),
+        )
+        return saveRestaurants(places)
+      },
+      checkValue: (value: unknown) => Array.isArray(value),
+    })
+    return restaurants.filter(restaurant =>
+      getDistanceInMeters({ lat, lng }, restaurant) <= radius,
+    )
+  } catch (error) {
+    console.warn('Restaurant search failed:', error)
+    return []
+  }
+}
+
+/**
+ * Gets the nearby restaurants, plus any with a dinner group that night, with
+ * attendance and waitlist counts for a night (and time slot) of an event
+ */
+async function getRestaurantsWithAttendance(
+  userId: string,
+  eventId: string,
+  date: Date,
+  timeSlot: string,
+  nearbyRestaurantIds: string[],
+) {
   const restaurants = await prisma.restaurant.findMany({
+    where: {
+      OR: [
+        { id: { in: nearbyRestaurantIds } },
+        { dinnerGroups: { some: { eventId, date, timeSlot } } },
+      ],
+    },
     include: {
-      dinnerGroup: {
+      cuisines: {
+        select: { name: true, label: true },
+        orderBy: { label: 'asc' },
+      },
+      dinnerGroups: {
+        where: { eventId, date, timeSlot },
         include: {
-          attendees: true,
+          attendees: {
+            orderBy: { createdAt: 'asc' },
+            include: { user: { select: dinerSelect } },
+          },
         },
       },
     },
   })
 
-  return restaurants.map(restaurant => {
-    const attendeeCount = restaurant.dinnerGroup?.attendees.length ?? 0
-    const isUserAttending = restaurant.dinnerGroup?.attendees.some(
-      attendee => attendee.userId === userId,
-    ) ?? false
+  return restaurants.map(({ dinnerGroups, ...restaurant }) => ({
+    ...restaurant,
+    openingHours: parseOpeningHours(restaurant.openingHours),
+    ...summarizeDinnerGroup(dinnerGroups[0], userId),
+  }))
+}
 
-    return {
-      ...restaurant,
-      attendeeCount,
-      isUserAttending,
-    }
+export const dinerSelect = {
+  id: true,
+  name: true,
+  username: true,
+  anonymousDiner: true,
+  image: { select: { objectKey: true } },
+} satisfies Prisma.UserSelect
+
+type DinerUser = Prisma.UserGetPayload<{ select: typeof dinerSelect }>
+
+/**
+ * Shows who a user is, unless they'd rather be an anonymous diner. People
+ * always see themselves though.
+ */
+export function toDinerProfile(user: DinerUser, userId: string): DinerProfile {
+  if (user.anonymousDiner && user.id !== userId) {
+    return { isAnonymous: true }
+  }
+  return {
+    id: user.id,
+    isAnonymous: false,
+    name: user.name,
+    username: user.username,
+    image: user.image,
+  }
+}
+
+function toDiner(
+  attendee: { id: string; user: DinerUser },
+  userId: string,
+  hostId: string | null,
+): Diner {
+  return {
+    attendeeId: attendee.id,
+    isHost: attendee.user.id === hostId,
+    ...toDinerProfile(attendee.user, userId),
+  }
+}
+
+/**
+ * Gets the attendance and waitlist counts of a dinner group (if there is one),
+ * who is attending, its plans, and where the user stands in it
+ */
+function summarizeDinnerGroup(
+  dinnerGroup:
+    | {
+        id: string
+        maxPartySize: number | null
+        meetingPoint: string | null
+        departureTime: string | null
+        notes: string | null
+        hostId: string | null
+        reservationStatus: string
+        reservationTime: string | null
+        reservationPartySize: number | null
+        reservationName: string | null
+        reservationCode: string | null
+        reservedById: string | null
+        attendees: Array<{
+          id: string
+          userId: string
+          status: string
+          user: DinerUser
+        }>
+      }
+    | undefined,
+  userId: string,
+) {
+  const attendees = dinnerGroup?.attendees ?? []
+  const attending = attendees.filter(attendee => attendee.status === ATTENDING)
+  const waitlist = attendees.filter(attendee => attendee.status === WAITLISTED)
+  const waitlistIndex = waitlist.findIndex(
+    attendee => attendee.userId === userId,
+  )
+  const maxPartySize = dinnerGroup?.maxPartySize ?? null
+  const capacity = dinnerGroup ? getCapacity(dinnerGroup) : null
+  const hostId = dinnerGroup?.hostId ?? null
+  const isUserAttending = attending.some(attendee => attendee.userId === userId)
+  const reservation = getReservation(dinnerGroup, isUserAttending)
+
+  return {
+    dinnerGroupId: dinnerGroup?.id ?? null,
+    maxPartySize,
+    capacity,
+    attendeeCount: attending.length,
+    diners: attending.map(attendee => toDiner(attendee, userId, hostId)),
+    waitlistCount: waitlist.length,
+    isFull: capacity !== null && attending.length >= capacity,
+    meetingPoint: dinnerGroup?.meetingPoint ?? null,
+    departureTime: dinnerGroup?.departureTime ?? null,
+    notes: dinnerGroup?.notes ?? null,
+    reservation,
+    canEditReservation:
+      isUserAttending &&
+      (!reservation ||
+        hostId === userId ||
+        dinnerGroup?.reservedById === userId),
+    isOverReservation: Boolean(
+      reservation?.partySize && attending.length > reservation.partySize,
+    ),
+    isUserAttending,
+    isUserWaitlisted: waitlistIndex !== -1,
+    userWaitlistPosition: waitlistIndex === -1 ? null : waitlistIndex + 1,
+    isUserHost: hostId === userId,
+  }
+}
+
+/**
+ * How many people a group can take: the max party size if the host set one,
+ * otherwise the size of the table that's booked, if any
+ */
+function getCapacity(dinnerGroup: {
+  maxPartySize: number | null
+  reservationPartySize: number | null
+}) {
+  return dinnerGroup.maxPartySize ?? dinnerGroup.reservationPartySize
+}
+
+function getReservation(
+  dinnerGroup:
+    | {
+        reservationStatus: string
+        reservationTime: string | null
+        reservationPartySize: number | null
+        reservationName: string | null
+        reservationCode: string | null
+      }
+    | undefined,
+  isUserAttending: boolean,
+): Reservation | null {
+  if (!dinnerGroup || dinnerGroup.reservationStatus === NO_RESERVATION) {
+    return null
+  }
+  return {
+    status: dinnerGroup.reservationStatus as ReservationStatus,
+    time: dinnerGroup.reservationTime,
+    partySize: dinnerGroup.reservationPartySize,
+    name: dinnerGroup.reservationName,
+    code: isUserAttending ? dinnerGroup.reservationCode : null,
+  }
+}
+
+/**
+ * Gets a restaurant with its dinner group for a night (and time slot) of an
+ * event, including who is going
+ */
+export async function getRestaurantWithAttendees({
+  restaurantId,
+  userId,
+  eventId,
+  date,
+  timeSlot = '',
+}: {
+  restaurantId: string
+  userId: string
+  eventId: string
+  date: Date
+  timeSlot?: string
+}) {
+  const restaurant = await prisma.restaurant.findUnique({
+    where: { id: restaurantId },
+    include: {
+      cuisines: {
+        select: { name: true, label: true },
+        orderBy: { label: 'asc' },
+      },
+      dinnerGroups: {
+        where: { eventId, date, timeSlot },
+        include: {
+          attendees: {
+            orderBy: { createdAt: 'asc' },
+            include: { user: { select: dinerSelect } },
+          },
+        },
+      },
+    },
   })
+  if (!restaurant) return null
+
+  const { dinnerGroups, ...rest } = restaurant
+  const dinnerGroup = dinnerGroups[0]
+  return {
+    ...rest,
+    openingHours: parseOpeningHours(rest.openingHours),
+    ...summarizeDinnerGroup(dinnerGroup, userId),
+  }
+}
+
+/**
+ * Gets a restaurant's address, contact info, opening hours and photos from the
+ * places provider (cached). They're nice to have, so if the provider is
+ * failing we do without.
+ */
+export async function getRestaurantPlaceDetails(restaurantId: string) {
+  try {
+    return await cachified<PlaceDetails | null>({
+      key: `restaurant-details:${restaurantId}`,
+      cache: lruAndSqliteCache,
+      ttl: CACHE_TTL,
+      swr: CACHE_SWR,
+      getFreshValue: async () => {
+        return placesCircuit.run(() =>
+          getPlacesProvider().getPlaceDetails(restaurantId),
+        )
+      },
+    })
+  } catch (error) {
+    console.warn(`Couldn't get details for restaurant ${restaurantId}:`, error)
+    return null
+  }
 }
 
 /**
- * Gets the restaurant the user is attending
+ * Gets the restaurant the user is attending on a night
  */
-export async function getUserAttendingRestaurant(userId: string) {
+export async function getUserAttendingRestaurant(userId: string, date: Date) {
   const attendee = await prisma.attendee.findUnique({
-    where: { userId },
+    where: { userId_date: { userId, date } },
     include: {
       dinnerGroup: {
         include: {
@@ -122,37 +613,55 @@ export async function getUserAttendingRestaurant(userId: string) {
 }
 
 /**
- * Gets all restaurant details with attendance information
+ * Gets all restaurant details with attendance information for an event.
+ * Distances are measured from the event's venue unless another origin is given.
+ * If the places provider is down, this still works from the restaurants we
+ * have stored, and says so with isStale. With a search, the nearby restaurants
+ * are the ones whose name or cuisine matches it.
  */
 export async function getAllRestaurantDetails({
   userId,
-  userLat,
-  userLng,
+  event,
+  date,
+  timeSlot = '',
+  userLat = event.lat,
+  userLng = event.lng,
   radius = DEFAULT_RADIUS,
+  search,
 }: {
   userId: string
-  userLat: number
-  userLng: number
+  event: { id: string; lat: number; lng: number }
+  date: Date
+  timeSlot?: string
+  userLat?: number
+  userLng?: number
   radius?: number
-}): Promise<RestaurantWithDetails[]> {
-  // Cache the API call to Google Places
-  const restaurants = await cachified({
-    key: `restaurants-${userLat}-${userLng}-${radius}`,
-    cache: lruCache,
-    ttl: CACHE_TTL,
-    getFreshValue: async () => {
-      return fetchAndCacheRestaurants(userLat, userLng, radius)
-    },
-    checkValue: (value: unknown) => Array.isArray(value),
-  })
+  search?: string
+}): Promise<{
+  restaurants: RestaurantWithDetails[]
+  isStale: boolean // the places provider failed, so this is what we had stored
+  lastUpdatedAt: Date | null // when stale data was last refreshed, if we have any
+}> {
+  const nearby = await getNearbyRestaurants(userLat, userLng, radius)
+  const matches = search
+    ? await searchRestaurants(search, userLat, userLng, radius)
+    : nearby.restaurants
+  const matchIds = new Set(matches.map(restaurant => restaurant.id))
 
   // Get attendance data (not cached, must be real-time)
-  const restaurantsWithAttendance = await getRestaurantsWithAttendance(userId)
+  const restaurantsWithAttendance = await getRestaurantsWithAttendance(
+    userId,
+    event.id,
+    date,
+    timeSlot,
+    [...matchIds],
+  )
 
   // Combine the data
-  return restaurantsWithAttendance.map(restaurant => {
+  const restaurants = restaurantsWithAttendance.map(restaurant => {
     return {
       ...restaurant,
+      matchesSearch: !search || matchIds.has(restaurant.id),
       distance: calculateDistance(
         userLat,
         userLng,
@@ -161,65 +670,655 @@ export async function getAllRestaurantDetails({
       ),
     }
   })
+
+  return {
+    restaurants,
+    isStale: nearby.isStale,
+    lastUpdatedAt: nearby.lastUpdatedAt,
+  }
+}
+
+export type AttendanceConflict =
+  | 'group-dissolved' // the group the user saw no longer exists
+  | 'group-full' // the group filled up before the user could take a seat
+  | 'not-attending' // the user has nothing to leave that night
+  | 'not-host' // only the group's host can change it or remove people
+  | 'not-in-group' // the attendee the host picked has since left
+  | 'not-booker' // only the host or whoever booked can change a reservation
+
+export type AttendanceResult =
+  | { status: 'joined'; dinnerGroupId: string }
+  | { status: 'waitlisted'; dinnerGroupId: string; position: number }
+  | { status: 'left'; dinnerGroupId: string; dissolved: boolean }
+  | { status: 'updated'; dinnerGroupId: string }
+  | { status: 'conflict'; reason: AttendanceConflict }
+
+type TransactionClient = Prisma.TransactionClient
+
+type PromotedAttendee = {
+  email: string
+  restaurantName: string
+}
+
+// What to tell people once an attendance transaction has committed
+type AttendanceEffects = {
+  promoted: Array<PromotedAttendee>
+  changes: Array<AttendanceEvent>
+}
+
+const noEffects: AttendanceEffects = { promoted: [], changes: [] }
+
+const MAX_TRANSACTION_ATTEMPTS = 3
+
+/**
+ * Runs an attendance change in a single serializable transaction. SQLite only
+ * allows one writer at a time, so if another change got there first we retry
+ * rather than failing the request.
+ */
+async function attendanceTransaction<Result>(
+  fn: (tx: TransactionClient) => Promise<Result>,
+  attempt = 1,
+): Promise<Result> {
+  try {
+    return await prisma.$transaction(fn, {
+      isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+    })
+  } catch (error) {
+    const isWriteConflict =
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2034'
+    if (isWriteConflict && attempt < MAX_TRANSACTION_ATTEMPTS) {
+      return attendanceTransaction(fn, attempt + 1)
+    }
+    throw error
+  }
 }
 
 /**
- * Joins a dinner group for a restaurant
+ * Joins a restaurant's dinner group for a night (and optional time slot),
+ * leaving any other group the user had that night. If the group is already
+ * full, the user is added to its waitlist instead.
+ *
+ * Pass the `dinnerGroupId` the user was looking at to get a `group-dissolved`
+ * conflict rather than silently starting a new group, and `waitlist: false`
+ * to get a `group-full` conflict rather than silently joining the waitlist.
  */
 export async function joinDinnerGroup({
   userId,
+  eventId,
   restaurantId,
+  date,
+  timeSlot = '',
+  dinnerGroupId,
+  waitlist = true,
 }: {
   userId: string
+  eventId: string
   restaurantId: string
-}) {
-  // First, leave any existing dinner group
-  await leaveDinnerGroup({ userId })
+  date: Date
+  timeSlot?: string
+  dinnerGroupId?: string
+  waitlist?: boolean
+}): Promise<AttendanceResult> {
+  const { result, effects } = await attendanceTransaction(async tx => {
+    const existingGroup = await tx.dinnerGroup.findUnique({
+      where: {
+        eventId_restaurantId_date_timeSlot: {
+          eventId,
+          restaurantId,
+          date,
+          timeSlot,
+        },
+      },
+    })
 
-  // Then, get or create the dinner group for this restaurant
-  const dinnerGroup = await prisma.dinnerGroup.upsert({
-    where: { restaurantId },
-    create: { restaurantId },
-    update: {},
-  })
+    if (dinnerGroupId && existingGroup?.id !== dinnerGroupId) {
+      return { result: conflict('group-dissolved'), effects: noEffects }
+    }
 
-  // Finally, create the attendee
-  return prisma.attendee.create({
-    data: {
-      userId,
+    // Leave any dinner group the user already has that night
+    const current = await tx.attendee.findUnique({
+      where: { userId_date: { userId, date } },
+    })
+    if (current && existingGroup && current.dinnerGroupId === existingGroup.id) {
+      // Already in (or waiting for) this group, nothing to change
+      return {
+        result: await getAttendeeResult(tx, current.id),
+        effects: noEffects,
+      }
+    }
+
+    const effects: AttendanceEffects = { promoted: [], changes: [] }
+    if (current) {
+      const left = await removeAttendee(tx, current.id)
+      effects.promoted.push(...left.promoted)
+      effects.changes.push(...left.changes)
+    }
+
+    // Get or create the dinner group for this restaurant and slot
+    const dinnerGroup = existingGroup ?? await tx.dinnerGroup.create({
+      data: {
+        eventId,
+        restaurantId,
+        date,
+        timeSlot,
+        createdById: userId,
+        hostId: userId,
+      },
+    })
+    const change = {
+      eventId,
+      night: dateToNight(date),
+      restaurantId,
       dinnerGroupId: dinnerGroup.id,
-    },
+      userId,
+    }
+    if (!existingGroup) {
+      effects.changes.push({ type: 'group-created', ...change })
+    }
+
+    const attendingCount = await tx.attendee.count({
+      where: { dinnerGroupId: dinnerGroup.id, status: ATTENDING },
+    })
+    const capacity = getCapacity(dinnerGroup)
+    const isFull = capacity !== null && attendingCount >= capacity
+
+    if (isFull && !waitlist) {
+      // Throwing rolls back leaving the user's old group too
+      throw new AttendanceConflictError('group-full')
+    }
+
+    const attendee = await tx.attendee.create({
+      data: {
+        userId,
+        dinnerGroupId: dinnerGroup.id,
+        date,
+        status: isFull ? WAITLISTED : ATTENDING,
+      },
+    })
+    // Say the host deleted their account, someone has to take over
+    if (!dinnerGroup.hostId && !isFull) {
+      await tx.dinnerGroup.update({
+        where: { id: dinnerGroup.id },
+        data: { hostId: userId },
+      })
+    }
+
+    effects.changes.push({ type: 'joined', ...change })
+
+    return { result: await getAttendeeResult(tx, attendee.id), effects }
+  }).catch(conflictOnError)
+
+  await applyAttendanceEffects(effects)
+  return result
+}
+
+/**
+ * Leaves the user's dinner group (or its waitlist) for a night. The group is
+ * dissolved if nobody is left, otherwise if that frees up a seat the next
+ * person on the waitlist is promoted and notified. A host leaving passes the
+ * role on to whoever has been attending the longest.
+ */
+export async function leaveDinnerGroup({
+  userId,
+  date,
+}: {
+  userId: string
+  date: Date
+}): Promise<AttendanceResult> {
+  const { result, effects } = await attendanceTransaction(async tx => {
+    const attendee = await tx.attendee.findUnique({
+      where: { userId_date: { userId, date } },
+    })
+
+    if (!attendee) {
+      return { result: conflict('not-attending'), effects: noEffects }
+    }
+
+    const { dissolved, ...effects } = await removeAttendee(tx, attendee.id)
+
+    return {
+      result: {
+        status: 'left',
+        dinnerGroupId: attendee.dinnerGroupId,
+        dissolved,
+      } as const,
+      effects,
+    }
   })
+
+  await applyAttendanceEffects(effects)
+  return result
 }
 
 /**
- * Leaves a dinner group
+ * Sets the max party size of a dinner group. Only the group's host can do
+ * this. Raising the limit promotes people from the waitlist; lowering it below
+ * the current attendance doesn't remove anyone.
  */
-export async function leaveDinnerGroup({ userId }: { userId: string }) {
-  const attendee = await prisma.attendee.findUnique({
-    where: { userId },
-    include: {
-      dinnerGroup: true,
-    },
+export async function setDinnerGroupCapacity({
+  userId,
+  dinnerGroupId,
+  maxPartySize,
+}: {
+  userId: string
+  dinnerGroupId: string
+  maxPartySize: number | null
+}): Promise<AttendanceResult> {
+  const { result, effects } = await attendanceTransaction(async tx => {
+    const dinnerGroup = await getHostedDinnerGroup(tx, dinnerGroupId, userId)
+
+    await tx.dinnerGroup.update({
+      where: { id: dinnerGroupId },
+      data: { maxPartySize },
+    })
+
+    const effects: AttendanceEffects = {
+      promoted: await promoteFromWaitlist(tx, dinnerGroupId),
+      changes: [{ type: 'group-updated', ...getChange(dinnerGroup, userId) }],
+    }
+
+    return {
+      result: { status: 'updated', dinnerGroupId } as const,
+      effects,
+    }
+  }).catch(conflictOnError)
+
+  await applyAttendanceEffects(effects)
+  return result
+}
+
+/**
+ * Sets where and when a dinner group meets before heading over, and its
+ * notes. Only the group's host can do this.
+ */
+export async function updateDinnerGroupPlans({
+  userId,
+  dinnerGroupId,
+  meetingPoint,
+  departureTime,
+  notes,
+}: {
+  userId: string
+  dinnerGroupId: string
+  meetingPoint: string | null
+  departureTime: string | null // "HH:MM" in the venue's timezone
+  notes: string | null
+}): Promise<AttendanceResult> {
+  const { result, effects } = await attendanceTransaction(async tx => {
+    const dinnerGroup = await getHostedDinnerGroup(tx, dinnerGroupId, userId)
+
+    await tx.dinnerGroup.update({
+      where: { id: dinnerGroupId },
+      data: { meetingPoint, departureTime, notes },
+    })
+
+    const effects: AttendanceEffects = {
+      promoted: [],
+      changes: [{ type: 'group-updated', ...getChange(dinnerGroup, userId) }],
+    }
+
+    return {
+      result: { status: 'updated', dinnerGroupId } as const,
+      effects,
+    }
+  }).catch(conflictOnError)
+
+  await applyAttendanceEffects(effects)
+  return result
+}
+
+/**
+ * Records a dinner group's reservation, or clears it with null. Anyone
+ * attending can record one if there isn't one yet, after which only the host
+ * or whoever booked it can change it. If the host hasn't set a max party size,
+ * the table's party size is the group's capacity.
+ */
+export async function updateDinnerGroupReservation({
+  userId,
+  dinnerGroupId,
+  reservation,
+}: {
+  userId: string
+  dinnerGroupId: string
+  reservation: Reservation | null
+}): Promise<AttendanceResult> {
+  const { result, effects } = await attendanceTransaction(async tx => {
+    const dinnerGroup = await tx.dinnerGroup.findUnique({
+      where: { id: dinnerGroupId },
+    })
+    if (!dinnerGroup) {
+      throw new AttendanceConflictError('group-dissolved')
+    }
+    const attendee = await tx.attendee.findUnique({
+      where: { userId_date: { userId, date: dinnerGroup.date } },
+    })
+    if (
+      attendee?.dinnerGroupId !== dinnerGroupId ||
+      attendee.status !== ATTENDING
+    ) {
+      throw new AttendanceConflictError('not-attending')
+    }
+    const canEdit =
+      dinnerGroup.reservationStatus === NO_RESERVATION ||
+      dinnerGroup.hostId === userId ||
+      dinnerGroup.reservedById === userId
+    if (!canEdit) {
+      throw new AttendanceConflictError('not-booker')
+    }
+
+    await tx.dinnerGroup.update({
+      where: { id: dinnerGroupId },
+      data: reservation
+        ? {
+            reservationStatus: reservation.status,
+            reservationTime: reservation.time,
+            reservationPartySize: reservation.partySize,
+            reservationName: reservation.name,
+            reservationCode: reservation.code,
+            // the host changing someone's booking doesn't make it theirs
+            reservedById: dinnerGroup.reservedById ?? userId,
+          }
+        : {
+            reservationStatus: NO_RESERVATION,
+            reservationTime: null,
+            reservationPartySize: null,
+            reservationName: null,
+            reservationCode: null,
+            reservedById: null,
+          },
+    })
+
+    // without a max party size, a bigger table (or none) frees up seats
+    const effects: AttendanceEffects = {
+      promoted: await promoteFromWaitlist(tx, dinnerGroupId),
+      changes: [{ type: 'group-updated', ...getChange(dinnerGroup, userId) }],
+    }
+
+    return {
+      result: { status: 'updated', dinnerGroupId } as const,
+      effects,
+    }
+  }).catch(conflictOnError)
+
+  await applyAttendanceEffects(effects)
+  return result
+}
+
+/**
+ * Hands the host role of a dinner group to someone attending it. Only the
+ * group's host can do this.
+ */
+export async function transferDinnerGroupHost({
+  userId,
+  dinnerGroupId,
+  attendeeId,
+}: {
+  userId: string
+  dinnerGroupId: string
+  attendeeId: string
+}): Promise<AttendanceResult> {
+  const { result, effects } = await attendanceTransaction(async tx => {
+    const dinnerGroup = await getHostedDinnerGroup(tx, dinnerGroupId, userId)
+    const attendee = await tx.attendee.findUnique({
+      where: { id: attendeeId },
+    })
+    // people on the waitlist might not make it to dinner
+    if (
+      attendee?.dinnerGroupId !== dinnerGroupId ||
+      attendee.status !== ATTENDING
+    ) {
+      throw new AttendanceConflictError('not-in-group')
+    }
+
+    await tx.dinnerGroup.update({
+      where: { id: dinnerGroupId },
+      data: { hostId: attendee.userId },
+    })
+
+    const effects: AttendanceEffects = {
+      promoted: [],
+      changes: [{ type: 'group-updated', ...getChange(dinnerGroup, userId) }],
+    }
+
+    return {
+      result: { status: 'updated', dinnerGroupId } as const,
+      effects,
+    }
+  }).catch(conflictOnError)
+
+  await applyAttendanceEffects(effects)
+  return result
+}
+
+/**
+ * Removes someone from a dinner group (or its waitlist), promoting from the
+ * waitlist if that frees up a seat. Only the group's host can do this.
+ */
+export async function removeDinnerGroupAttendee({
+  userId,
+  dinnerGroupId,
+  attendeeId,
+}: {
+  userId: string
+  dinnerGroupId: string
+  attendeeId: string
+}): Promise<AttendanceResult> {
+  const { result, effects } = await attendanceTransaction(async tx => {
+    await getHostedDinnerGroup(tx, dinnerGroupId, userId)
+    const attendee = await tx.attendee.findUnique({
+      where: { id: attendeeId },
+    })
+    if (attendee?.dinnerGroupId !== dinnerGroupId) {
+      throw new AttendanceConflictError('not-in-group')
+    }
+
+    const { promoted, changes } = await removeAttendee(tx, attendee.id)
+
+    return {
+      result: { status: 'updated', dinnerGroupId } as const,
+      effects: { promoted, changes },
+    }
+  }).catch(conflictOnError)
+
+  await applyAttendanceEffects(effects)
+  return result
+}
+
+class AttendanceConflictError extends Error {
+  constructor(public reason: AttendanceConflict) {
+    super(`Attendance conflict: ${reason}`)
+  }
+}
+
+function conflict(reason: AttendanceConflict) {
+  return { status: 'conflict', reason } as const
+}
+
+// Turns a conflict thrown inside an attendance transaction into its result
+function conflictOnError(error: unknown) {
+  if (error instanceof AttendanceConflictError) {
+    return { result: conflict(error.reason), effects: noEffects }
+  }
+  throw error
+}
+
+/**
+ * Gets a dinner group to change, as long as the user is its host
+ */
+async function getHostedDinnerGroup(
+  tx: TransactionClient,
+  dinnerGroupId: string,
+  userId: string,
+) {
+  const dinnerGroup = await tx.dinnerGroup.findUnique({
+    where: { id: dinnerGroupId },
+  })
+  if (!dinnerGroup) {
+    throw new AttendanceConflictError('group-dissolved')
+  }
+  if (dinnerGroup.hostId !== userId) {
+    throw new AttendanceConflictError('not-host')
+  }
+  return dinnerGroup
+}
+
+function getChange(
+  dinnerGroup: {
+    id: string
+    eventId: string
+    date: Date
+    restaurantId: string
+  },
+  userId: string,
+) {
+  return {
+    eventId: dinnerGroup.eventId,
+    night: dateToNight(dinnerGroup.date),
+    restaurantId: dinnerGroup.restaurantId,
+    dinnerGroupId: dinnerGroup.id,
+    userId,
+  }
+}
+
+async function getAttendeeResult(
+  tx: TransactionClient,
+  attendeeId: string,
+): Promise<AttendanceResult> {
+  const attendee = await tx.attendee.findUniqueOrThrow({
+    where: { id: attendeeId },
   })
 
-  if (!attendee) return null
+  if (attendee.status === ATTENDING) {
+    return { status: 'joined', dinnerGroupId: attendee.dinnerGroupId }
+  }
+
+  const ahead = await tx.attendee.count({
+    where: {
+      dinnerGroupId: attendee.dinnerGroupId,
+      status: WAITLISTED,
+      createdAt: { lt: attendee.createdAt },
+    },
+  })
+  return {
+    status: 'waitlisted',
+    dinnerGroupId: attendee.dinnerGroupId,
+    position: ahead + 1,
+  }
+}
 
-  // Delete the attendee
-  await prisma.attendee.delete({
-    where: { id: attendee.id },
+/**
+ * Removes an attendee, dissolving their group if it's now empty or promoting
+ * from the waitlist if a seat opened up. If they were the host, whoever has
+ * been attending the longest takes over.
+ */
+async function removeAttendee(
+  tx: TransactionClient,
+  attendeeId: string,
+): Promise<AttendanceEffects & { dissolved: boolean }> {
+  const attendee = await tx.attendee.delete({
+    where: { id: attendeeId },
+    include: { dinnerGroup: true },
   })
+  const change = {
+    eventId: attendee.dinnerGroup.eventId,
+    night: dateToNight(attendee.date),
+    restaurantId: attendee.dinnerGroup.restaurantId,
+    dinnerGroupId: attendee.dinnerGroupId,
+    userId: attendee.userId,
+  }
 
-  // If this was the last attendee, delete the dinner group
-  const remainingAttendees = await prisma.attendee.count({
-    where: { dinnerGroupId: attendee.dinnerGroup.id },
+  const remainingAttendees = await tx.attendee.count({
+    where: { dinnerGroupId: attendee.dinnerGroupId },
   })
 
   if (remainingAttendees === 0) {
-    await prisma.dinnerGroup.delete({
-      where: { id: attendee.dinnerGroup.id },
+    await tx.dinnerGroup.delete({
+      where: { id: attendee.dinnerGroupId },
+    })
+    return {
+      dissolved: true,
+      promoted: [],
+      changes: [
+        { type: 'left', ...change },
+        { type: 'group-dissolved', ...change },
+      ],
+    }
+  }
+
+  const promoted =
+    attendee.status === ATTENDING
+      ? await promoteFromWaitlist(tx, attendee.dinnerGroupId)
+      : []
+  if (attendee.userId === attendee.dinnerGroup.hostId) {
+    const nextHost = await tx.attendee.findFirst({
+      where: { dinnerGroupId: attendee.dinnerGroupId, status: ATTENDING },
+      orderBy: { createdAt: 'asc' },
+    })
+    await tx.dinnerGroup.update({
+      where: { id: attendee.dinnerGroupId },
+      data: { hostId: nextHost?.userId ?? null },
     })
   }
+  return { dissolved: false, promoted, changes: [{ type: 'left', ...change }] }
+}
+
+/**
+ * Moves people from the front of a group's waitlist into the group until it's
+ * full again
+ */
+async function promoteFromWaitlist(
+  tx: TransactionClient,
+  dinnerGroupId: string,
+): Promise<Array<PromotedAttendee>> {
+  const dinnerGroup = await tx.dinnerGroup.findUniqueOrThrow({
+    where: { id: dinnerGroupId },
+    include: { restaurant: { select: { name: true } } },
+  })
+  const attendingCount = await tx.attendee.count({
+    where: { dinnerGroupId, status: ATTENDING },
+  })
+  const capacity = getCapacity(dinnerGroup)
+  const openSeats = capacity === null ? undefined : capacity - attendingCount
+
+  if (openSeats !== undefined && openSeats <= 0) return []
+
+  const promoted = await tx.attendee.findMany({
+    where: { dinnerGroupId, status: WAITLISTED },
+    orderBy: { createdAt: 'asc' },
+    take: openSeats,
+    include: { user: { select: { email: true } } },
+  })
 
-  return attendee
-} 
\ No newline at end of file
+  if (promoted.length === 0) return []
+
+  await tx.attendee.updateMany({
+    where: { id: { in: promoted.map(attendee => attendee.id) } },
+    data: { status: ATTENDING },
+  })
+
+  return promoted.map(attendee => ({
+    email: attendee.user.email,
+    restaurantName: dinnerGroup.restaurant.name,
+  }))
+}
+
+/**
+ * Emails people who were promoted off a waitlist and pushes the changes to
+ * everyone watching that night. This happens after the transaction commits so
+ * a slow email API never holds the database lock.
+ */
+async function applyAttendanceEffects({ promoted, changes }: AttendanceEffects) {
+  await Promise.all([
+    publishAttendanceEvents(changes),
+    ...promoted.map(({ email, restaurantName }) =>
+      sendEmail({
+        to: email,
+        subject: `You're off the waitlist for ${restaurantName}`,
+        // restaurant names come from the places provider, so let react-email
+        // escape them
+        react: createElement(WaitlistPromotionEmail, { restaurantName }),
+      }),
+    ),
+  ])
+}
@@ -0,0 +1,23 @@
+import * as E from '@react-email/components'
+
+export function WaitlistPromotionEmail({
+	restaurantName,
+}: {
+	restaurantName: string
+}) {
+	return (
+		<E.Html lang="en" dir="ltr">
+			<E.Container>
+				<h1>
+					<E.Text>You're off the waitlist</E.Text>
+				</h1>
+				<p>
+					<E.Text>
+						A seat opened up at <strong>{restaurantName}</strong>, so you're now
+						going to dinner there.
+					</E.Text>
+				</p>
+			</E.Container>
+		</E.Html>
+	)
+}
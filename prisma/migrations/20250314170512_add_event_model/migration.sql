@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE "Event" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "venueName" TEXT NOT NULL,
+    "lat" REAL NOT NULL,
+    "lng" REAL NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- Existing dinner groups were all planned around the Hilton in Salt Lake City,
+-- so they get attached to an event for that venue.
+INSERT INTO "Event" ("id", "name", "venueName", "lat", "lng", "startDate", "endDate", "timezone", "updatedAt")
+SELECT 'cm87legacyevent0000000000', 'Salt Lake City', 'Hilton Salt Lake City Center', 40.7596, -111.8867,
+    (SELECT MIN("createdAt") FROM "DinnerGroup"), (SELECT MAX("createdAt") FROM "DinnerGroup"),
+    'America/Denver', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "DinnerGroup");
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DinnerGroup" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "restaurantId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerGroup_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_DinnerGroup" ("createdAt", "eventId", "id", "notes", "restaurantId") SELECT "createdAt", 'cm87legacyevent0000000000', "id", "notes", "restaurantId" FROM "DinnerGroup";
+DROP TABLE "DinnerGroup";
+ALTER TABLE "new_DinnerGroup" RENAME TO "DinnerGroup";
+CREATE INDEX "DinnerGroup_restaurantId_idx" ON "DinnerGroup"("restaurantId");
+CREATE UNIQUE INDEX "DinnerGroup_eventId_restaurantId_key" ON "DinnerGroup"("eventId", "restaurantId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "Event_startDate_idx" ON "Event"("startDate");
@@ -0,0 +1,36 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DinnerGroup" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "restaurantId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "timeSlot" TEXT NOT NULL DEFAULT '',
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerGroup_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+-- Existing groups are placed on the (UTC) calendar day they were created
+INSERT INTO "new_DinnerGroup" ("createdAt", "date", "eventId", "id", "notes", "restaurantId") SELECT "createdAt", ("createdAt" / 86400000) * 86400000, "eventId", "id", "notes", "restaurantId" FROM "DinnerGroup";
+DROP TABLE "DinnerGroup";
+ALTER TABLE "new_DinnerGroup" RENAME TO "DinnerGroup";
+CREATE INDEX "DinnerGroup_eventId_date_idx" ON "DinnerGroup"("eventId", "date");
+CREATE UNIQUE INDEX "DinnerGroup_restaurantId_date_timeSlot_key" ON "DinnerGroup"("restaurantId", "date", "timeSlot");
+CREATE TABLE "new_Attendee" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "dinnerGroupId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Attendee_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Attendee_dinnerGroupId_fkey" FOREIGN KEY ("dinnerGroupId") REFERENCES "DinnerGroup" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Attendee" ("createdAt", "date", "dinnerGroupId", "id", "userId") SELECT "Attendee"."createdAt", "DinnerGroup"."date", "Attendee"."dinnerGroupId", "Attendee"."id", "Attendee"."userId" FROM "Attendee" INNER JOIN "DinnerGroup" ON "DinnerGroup"."id" = "Attendee"."dinnerGroupId";
+DROP TABLE "Attendee";
+ALTER TABLE "new_Attendee" RENAME TO "Attendee";
+CREATE INDEX "Attendee_dinnerGroupId_idx" ON "Attendee"("dinnerGroupId");
+CREATE UNIQUE INDEX "Attendee_userId_date_key" ON "Attendee"("userId", "date");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
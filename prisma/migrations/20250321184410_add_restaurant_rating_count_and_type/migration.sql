@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Restaurant" ADD COLUMN "primaryType" TEXT;
+ALTER TABLE "Restaurant" ADD COLUMN "ratingCount" INTEGER;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN "dinnerEnd" TEXT NOT NULL DEFAULT '20:00';
+ALTER TABLE "Event" ADD COLUMN "dinnerStart" TEXT NOT NULL DEFAULT '18:00';
+
+-- AlterTable
+ALTER TABLE "Restaurant" ADD COLUMN "openingHours" TEXT;
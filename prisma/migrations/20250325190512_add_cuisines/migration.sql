@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "Cuisine" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "label" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "_CuisineToRestaurant" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_CuisineToRestaurant_A_fkey" FOREIGN KEY ("A") REFERENCES "Cuisine" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_CuisineToRestaurant_B_fkey" FOREIGN KEY ("B") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Cuisine_name_key" ON "Cuisine"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_CuisineToRestaurant_AB_unique" ON "_CuisineToRestaurant"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_CuisineToRestaurant_B_index" ON "_CuisineToRestaurant"("B");
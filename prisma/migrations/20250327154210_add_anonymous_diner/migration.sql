@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "anonymousDiner" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,36 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DinnerGroup" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "restaurantId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "timeSlot" TEXT NOT NULL DEFAULT '',
+    "notes" TEXT,
+    "meetingPoint" TEXT,
+    "departureTime" TEXT,
+    "maxPartySize" INTEGER,
+    "createdById" TEXT,
+    "hostId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerGroup_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_DinnerGroup" ("createdAt", "createdById", "date", "eventId", "id", "maxPartySize", "notes", "restaurantId", "timeSlot") SELECT "createdAt", "createdById", "date", "eventId", "id", "maxPartySize", "notes", "restaurantId", "timeSlot" FROM "DinnerGroup";
+DROP TABLE "DinnerGroup";
+ALTER TABLE "new_DinnerGroup" RENAME TO "DinnerGroup";
+CREATE INDEX "DinnerGroup_eventId_date_idx" ON "DinnerGroup"("eventId", "date");
+CREATE UNIQUE INDEX "DinnerGroup_restaurantId_date_timeSlot_key" ON "DinnerGroup"("restaurantId", "date", "timeSlot");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- Existing groups are hosted by whoever has been attending the longest
+UPDATE "DinnerGroup" SET "hostId" = (
+    SELECT "userId" FROM "Attendee"
+    WHERE "Attendee"."dinnerGroupId" = "DinnerGroup"."id" AND "Attendee"."status" = 'attending'
+    ORDER BY "Attendee"."createdAt" ASC
+    LIMIT 1
+);
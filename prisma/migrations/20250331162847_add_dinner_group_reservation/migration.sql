@@ -0,0 +1,35 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_DinnerGroup" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "restaurantId" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "timeSlot" TEXT NOT NULL DEFAULT '',
+    "notes" TEXT,
+    "meetingPoint" TEXT,
+    "departureTime" TEXT,
+    "maxPartySize" INTEGER,
+    "createdById" TEXT,
+    "hostId" TEXT,
+    "reservationStatus" TEXT NOT NULL DEFAULT 'none',
+    "reservationTime" TEXT,
+    "reservationPartySize" INTEGER,
+    "reservationName" TEXT,
+    "reservationCode" TEXT,
+    "reservedById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerGroup_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_hostId_fkey" FOREIGN KEY ("hostId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroup_reservedById_fkey" FOREIGN KEY ("reservedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_DinnerGroup" ("createdAt", "createdById", "date", "departureTime", "eventId", "hostId", "id", "maxPartySize", "meetingPoint", "notes", "restaurantId", "timeSlot") SELECT "createdAt", "createdById", "date", "departureTime", "eventId", "hostId", "id", "maxPartySize", "meetingPoint", "notes", "restaurantId", "timeSlot" FROM "DinnerGroup";
+DROP TABLE "DinnerGroup";
+ALTER TABLE "new_DinnerGroup" RENAME TO "DinnerGroup";
+CREATE INDEX "DinnerGroup_eventId_date_idx" ON "DinnerGroup"("eventId", "date");
+CREATE UNIQUE INDEX "DinnerGroup_restaurantId_date_timeSlot_key" ON "DinnerGroup"("restaurantId", "date", "timeSlot");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "DinnerPoll" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "eventId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "closesAt" DATETIME NOT NULL,
+    "closedAt" DATETIME,
+    "winnerId" TEXT,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerPoll_eventId_fkey" FOREIGN KEY ("eventId") REFERENCES "Event" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerPoll_winnerId_fkey" FOREIGN KEY ("winnerId") REFERENCES "Restaurant" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "DinnerPoll_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "DinnerPollVote" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "pollId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "restaurantId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "DinnerPollVote_pollId_fkey" FOREIGN KEY ("pollId") REFERENCES "DinnerPoll" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerPollVote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerPollVote_restaurantId_fkey" FOREIGN KEY ("restaurantId") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "_DinnerPollOptions" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+    CONSTRAINT "_DinnerPollOptions_A_fkey" FOREIGN KEY ("A") REFERENCES "DinnerPoll" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "_DinnerPollOptions_B_fkey" FOREIGN KEY ("B") REFERENCES "Restaurant" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DinnerPoll_eventId_date_idx" ON "DinnerPoll"("eventId", "date");
+
+-- CreateIndex
+CREATE INDEX "DinnerPollVote_userId_idx" ON "DinnerPollVote"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DinnerPollVote_pollId_userId_key" ON "DinnerPollVote"("pollId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "_DinnerPollOptions_AB_unique" ON "_DinnerPollOptions"("A", "B");
+
+-- CreateIndex
+CREATE INDEX "_DinnerPollOptions_B_index" ON "_DinnerPollOptions"("B");
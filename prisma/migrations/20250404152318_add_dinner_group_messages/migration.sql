@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "DinnerGroupMessage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "dinnerGroupId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DinnerGroupMessage_dinnerGroupId_fkey" FOREIGN KEY ("dinnerGroupId") REFERENCES "DinnerGroup" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DinnerGroupMessage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "DinnerGroupMessage_dinnerGroupId_createdAt_idx" ON "DinnerGroupMessage"("dinnerGroupId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "DinnerGroupMessage_userId_idx" ON "DinnerGroupMessage"("userId");
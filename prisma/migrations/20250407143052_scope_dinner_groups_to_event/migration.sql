@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "DinnerGroup_restaurantId_date_timeSlot_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DinnerGroup_eventId_restaurantId_date_timeSlot_key" ON "DinnerGroup"("eventId", "restaurantId", "date", "timeSlot");
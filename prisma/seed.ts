@@ -244,6 +244,24 @@ async function seed() {
 
 	console.timeEnd(`🐨 Created admin user "kody"`)
 
+	console.time(`🍽️ Created event...`)
+	const startDate = new Date()
+	startDate.setUTCHours(0, 0, 0, 0)
+	const endDate = new Date(startDate)
+	endDate.setUTCDate(endDate.getUTCDate() + 2)
+	await prisma.event.create({
+		data: {
+			name: 'Salt Lake City',
+			venueName: 'Hilton Salt Lake City Center',
+			lat: 40.7596,
+			lng: -111.8867,
+			startDate,
+			endDate,
+			timezone: 'America/Denver',
+		},
+	})
+	console.timeEnd(`🍽️ Created event...`)
+
 	console.timeEnd(`🌱 Database has been seeded`)
 }
 
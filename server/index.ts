@@ -62,7 +62,14 @@ app.get('*', (req, res, next) => {
 	}
 })
 
-app.use(compression())
+app.use(
+	compression({
+		// compression buffers responses, which would hold back server-sent events
+		filter: (req, res) =>
+			!String(res.getHeader('Content-Type')).startsWith('text/event-stream') &&
+			compression.filter(req, res),
+	}),
+)
 
 // http://expressjs.com/en/advanced/best-practice-security.html#at-a-minimum-disable-x-powered-by-header
 app.disable('x-powered-by')
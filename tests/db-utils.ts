@@ -29,6 +29,29 @@ export function createUser() {
 	}
 }
 
+// an event near a venue in Salt Lake City, on a single night
+export function createEvent(date: Date) {
+	return {
+		name: faker.company.name(),
+		venueName: faker.company.name(),
+		lat: 40.7596,
+		lng: -111.8868,
+		startDate: date,
+		endDate: date,
+		timezone: 'America/Denver',
+	}
+}
+
+// a stored restaurant a couple of blocks from the event's venue
+export function createRestaurant() {
+	return {
+		id: faker.string.uuid(),
+		name: faker.company.name(),
+		lat: 40.76,
+		lng: -111.89,
+	}
+}
+
 export function createPassword(password: string = faker.internet.password()) {
 	return {
 		hash: bcrypt.hashSync(password, 10),
@@ -0,0 +1,98 @@
+import { prisma } from '#app/utils/db.server.ts'
+import { createEvent } from '#tests/db-utils.ts'
+import { expect, test } from '#tests/playwright-utils.ts'
+
+test('Users can join and leave a dinner group', async ({ page, login }) => {
+	const user = await login()
+	const today = new Date()
+	today.setUTCHours(0, 0, 0, 0)
+	const event = await prisma.event.create({
+		data: {
+			...createEvent(today),
+			venueName: 'Hilton Salt Lake City Center',
+			timezone: 'UTC',
+		},
+	})
+
+	try {
+		await page.goto(`/users/${user.username}/restaurants`)
+		await page.getByLabel('Event').selectOption({ label: event.name })
+		await expect(
+			page.getByText('Near Hilton Salt Lake City Center'),
+		).toBeVisible()
+		await expect(
+			page.getByText('Everyone is having dinner on their own'),
+		).toBeVisible()
+
+		// the mocked Places API always returns the same restaurants here
+		const restaurantName = await page
+			.getByRole('heading', { level: 3 })
+			.first()
+			.textContent()
+		await page
+			.getByRole('button', { name: 'Join', exact: true })
+			.first()
+			.click()
+
+		await expect(page.getByRole('button', { name: 'Leave' })).toBeVisible()
+		await expect(page.getByText('1 attending')).toBeVisible()
+		await expect(
+			page.getByRole('heading', { level: 3, name: restaurantName! }),
+		).toHaveCount(1)
+
+		await page.getByRole('button', { name: 'Leave' }).click()
+		await expect(
+			page.getByText('Everyone is having dinner on their own'),
+		).toBeVisible()
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } })
+	}
+})
+
+test('Users can see who is going from a restaurant page', async ({
+	page,
+	login,
+}) => {
+	const user = await login()
+	const today = new Date()
+	today.setUTCHours(0, 0, 0, 0)
+	const event = await prisma.event.create({
+		data: {
+			...createEvent(today),
+			venueName: 'Hilton Salt Lake City Center',
+			timezone: 'UTC',
+		},
+	})
+
+	try {
+		await page.goto(`/users/${user.username}/restaurants`)
+		await page.getByLabel('Event').selectOption({ label: event.name })
+		await expect(
+			page.getByText('Near Hilton Salt Lake City Center'),
+		).toBeVisible()
+
+		const restaurantLink = page
+			.getByRole('heading', { level: 3 })
+			.first()
+			.getByRole('link')
+		const restaurantName = await restaurantLink.textContent()
+		await restaurantLink.click()
+
+		await expect(
+			page.getByRole('heading', { level: 1, name: restaurantName! }),
+		).toBeVisible()
+		await expect(page.getByText('Nobody is going here yet')).toBeVisible()
+
+		await page.getByRole('button', { name: 'Join', exact: true }).click()
+		await expect(
+			page
+				.getByRole('listitem')
+				.getByRole('link', { name: user.name ?? user.username }),
+		).toBeVisible()
+
+		await page.getByRole('button', { name: 'Leave' }).click()
+		await expect(page.getByText('Nobody is going here yet')).toBeVisible()
+	} finally {
+		await prisma.event.delete({ where: { id: event.id } })
+	}
+})
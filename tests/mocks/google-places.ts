@@ -0,0 +1,422 @@
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { en, Faker } from '@faker-js/faker'
+import fsExtra from 'fs-extra'
+import { HttpResponse, passthrough, http, type HttpHandler } from 'msw'
+import { z } from 'zod'
+
+const { json } = HttpResponse
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url))
+const photoFixturesDir = path.join(
+	__dirname,
+	'..',
+	'fixtures',
+	'images',
+	'notes',
+)
+
+const passthroughGooglePlaces =
+	!process.env.GOOGLE_PLACES_API_KEY?.startsWith('MOCK_') &&
+	process.env.NODE_ENV !== 'test'
+
+const API_URL = 'https://places.googleapis.com/v1'
+
+// The mock world is split into a grid of cells (about 1km across) with a few
+// restaurants in each, seeded by the cell. That way every search returns the
+// same restaurants for the same area, however it's centered.
+const CELL_SIZE = 0.01 // degrees
+const RESTAURANTS_PER_CELL = 3
+// searchNearby never returns more than 20 places
+const MAX_RESULT_COUNT = 20
+const METERS_PER_DEGREE = 111_320
+
+// a separate instance so seeding it doesn't affect other mocks or test data
+const placesFaker = new Faker({ locale: [en] })
+
+const cuisines = [
+	{ name: 'Grill', primaryType: 'american_restaurant' },
+	{ name: 'Kitchen', primaryType: 'restaurant' },
+	{ name: 'Bistro', primaryType: 'french_restaurant' },
+	{ name: 'Taqueria', primaryType: 'mexican_restaurant' },
+	{ name: 'Noodle House', primaryType: 'chinese_restaurant' },
+	{ name: 'Diner', primaryType: 'diner' },
+	{ name: 'Pizzeria', primaryType: 'pizza_restaurant' },
+	{ name: 'Sushi Bar', primaryType: 'sushi_restaurant' },
+	{ name: 'Cafe', primaryType: 'cafe' },
+	{ name: 'Steakhouse', primaryType: 'steak_house' },
+	{ name: 'Curry House', primaryType: 'indian_restaurant' },
+	{ name: 'Brewpub', primaryType: 'bar' },
+]
+
+const priceLevels = [
+	'PRICE_LEVEL_INEXPENSIVE',
+	'PRICE_LEVEL_MODERATE',
+	'PRICE_LEVEL_EXPENSIVE',
+	'PRICE_LEVEL_VERY_EXPENSIVE',
+]
+
+type MockPlace = ReturnType<typeof createCellPlaces>[number]
+
+function hashString(value: string) {
+	// FNV-1a
+	let hash = 2166136261
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i)
+		hash = Math.imul(hash, 16777619)
+	}
+	return hash >>> 0
+}
+
+function createOpeningHours() {
+	const openHour = placesFaker.helpers.arrayElement([11, 16, 17])
+	const closeHour = placesFaker.helpers.arrayElement([21, 22, 23])
+	const closedDay = placesFaker.helpers.maybe(
+		() => placesFaker.number.int({ min: 0, max: 6 }),
+		{ probability: 0.5 },
+	)
+	return {
+		periods: Array.from({ length: 7 }, (_, day) => day)
+			.filter((day) => day !== closedDay)
+			.map((day) => ({
+				open: { day, hour: openHour, minute: 0 },
+				close: { day, hour: closeHour, minute: 0 },
+			})),
+	}
+}
+
+function createCellPlaces(cellLat: number, cellLng: number) {
+	placesFaker.seed(hashString(`${cellLat},${cellLng}`))
+	return Array.from({ length: RESTAURANTS_PER_CELL }, (_, index) => {
+		const id = `MOCK_${cellLat}_${cellLng}_${index}`
+		const cuisine = placesFaker.helpers.arrayElement(cuisines)
+		const photoCount = placesFaker.helpers.weightedArrayElement([
+			{ weight: 2, value: 0 },
+			{ weight: 4, value: 1 },
+			{ weight: 4, value: 3 },
+		])
+		return {
+			id,
+			displayName: {
+				text: `${placesFaker.person.lastName()}'s ${cuisine.name}`,
+				languageCode: 'en',
+			},
+			formattedAddress: `${placesFaker.location.streetAddress()}, ${placesFaker.location.city()}`,
+			nationalPhoneNumber: placesFaker.phone.number({ style: 'national' }),
+			websiteUri: placesFaker.helpers.maybe(() => placesFaker.internet.url(), {
+				probability: 0.6,
+			}),
+			googleMapsUri: `https://maps.google.com/?cid=${hashString(id)}`,
+			primaryType: cuisine.primaryType,
+			types: [
+				...new Set([cuisine.primaryType, 'restaurant', 'food']),
+				'point_of_interest',
+				'establishment',
+			],
+			rating: placesFaker.helpers.maybe(
+				() => placesFaker.number.float({ min: 2.5, max: 5, fractionDigits: 1 }),
+				{ probability: 0.9 },
+			),
+			userRatingCount: placesFaker.number.int({ min: 0, max: 3000 }),
+			priceLevel: placesFaker.helpers.maybe(
+				() => placesFaker.helpers.arrayElement(priceLevels),
+				{ probability: 0.8 },
+			),
+			location: {
+				latitude:
+					(cellLat + placesFaker.number.float({ min: 0, max: 1 })) * CELL_SIZE,
+				longitude:
+					(cellLng + placesFaker.number.float({ min: 0, max: 1 })) * CELL_SIZE,
+			},
+			regularOpeningHours: createOpeningHours(),
+			photos: photoCount
+				? Array.from({ length: photoCount }, (_, photoIndex) => ({
+						name: `places/${id}/photos/MOCK_PHOTO_${photoIndex}`,
+						widthPx: 600,
+						heightPx: 400,
+					}))
+				: undefined,
+		}
+	})
+}
+
+function getDistanceInMeters(
+	from: { latitude: number; longitude: number },
+	to: { latitude: number; longitude: number },
+) {
+	// an equirectangular approximation is plenty accurate at these distances
+	const x =
+		(to.longitude - from.longitude) *
+		Math.cos(((from.latitude + to.latitude) / 2) * (Math.PI / 180))
+	const y = to.latitude - from.latitude
+	return Math.sqrt(x * x + y * y) * METERS_PER_DEGREE
+}
+
+function getPlacesNearby(
+	center: { latitude: number; longitude: number },
+	radius: number,
+) {
+	const latSpan = radius / METERS_PER_DEGREE
+	const lngSpan = latSpan / Math.cos(center.latitude * (Math.PI / 180))
+	const places: Array<MockPlace & { distance: number }> = []
+	for (
+		let cellLat = Math.floor((center.latitude - latSpan) / CELL_SIZE);
+		cellLat <= Math.floor((center.latitude + latSpan) / CELL_SIZE);
+		cellLat++
+	) {
+		for (
+			let cellLng = Math.floor((center.longitude - lngSpan) / CELL_SIZE);
+			cellLng <= Math.floor((center.longitude + lngSpan) / CELL_SIZE);
+			cellLng++
+		) {
+			for (const place of createCellPlaces(cellLat, cellLng)) {
+				const distance = getDistanceInMeters(center, place.location)
+				if (distance <= radius) places.push({ ...place, distance })
+			}
+		}
+	}
+	return places
+}
+
+function getPlace(placeId: string) {
+	const match = placeId.match(/^MOCK_(-?\d+)_(-?\d+)_(\d+)$/)
+	if (!match) return null
+	const [, cellLat, cellLng, index] = match
+	return (
+		createCellPlaces(Number(cellLat), Number(cellLng))[Number(index)] ?? null
+	)
+}
+
+/**
+ * Like the real API, only returns the fields in the field mask
+ */
+function applyFieldMask(
+	place: Record<string, unknown>,
+	fieldMask: string,
+	prefix = '',
+) {
+	if (fieldMask === '*') return place
+	const fields = fieldMask
+		.split(',')
+		.map((field) => field.trim())
+		.filter((field) => field.startsWith(prefix))
+		.map((field) => field.slice(prefix.length))
+	return Object.fromEntries(
+		Object.entries(place).filter(([key]) => fields.includes(key)),
+	)
+}
+
+function errorResponse(code: number, status: string, message: string) {
+	return json({ error: { code, status, message } }, { status: code })
+}
+
+/**
+ * Gets the field mask, or the error response for a request without one or
+ * without an API key
+ */
+function requireFieldMask(request: Request) {
+	if (!request.headers.get('X-Goog-Api-Key')) {
+		return errorResponse(
+			403,
+			'PERMISSION_DENIED',
+			"Method doesn't allow unregistered callers.",
+		)
+	}
+	const fieldMask = request.headers.get('X-Goog-FieldMask')
+	if (!fieldMask) {
+		return errorResponse(
+			400,
+			'INVALID_ARGUMENT',
+			'FieldMask is a required parameter.',
+		)
+	}
+	return fieldMask
+}
+
+const SearchNearbySchema = z.object({
+	includedTypes: z.array(z.string()).optional(),
+	maxResultCount: z.number().int().min(1).max(MAX_RESULT_COUNT).default(20),
+	rankPreference: z.enum(['POPULARITY', 'DISTANCE']).default('POPULARITY'),
+	locationRestriction: z.object({
+		circle: z.object({
+			center: z.object({ latitude: z.number(), longitude: z.number() }),
+			radius: z.number().gt(0).max(50_000),
+		}),
+	}),
+})
+
+const SearchTextSchema = z.object({
+	textQuery: z.string().min(1),
+	includedType: z.string().optional(),
+	pageSize: z.number().int().min(1).max(MAX_RESULT_COUNT).default(20),
+	locationBias: z.object({
+		circle: z.object({
+			center: z.object({ latitude: z.number(), longitude: z.number() }),
+			radius: z.number().gt(0).max(50_000),
+		}),
+	}),
+})
+
+/**
+ * A rough stand-in for searchText's matching: every word of the query has to
+ * be in the name or one of the place's types
+ */
+function matchesTextQuery(place: MockPlace, textQuery: string) {
+	const text = [place.displayName.text, ...place.types]
+		.join(' ')
+		.replace(/_/g, ' ')
+		.toLowerCase()
+	return textQuery
+		.toLowerCase()
+		.split(/\s+/)
+		.filter(Boolean)
+		.every((word) => text.includes(word))
+}
+
+/**
+ * Without an includedType, searchText is used to geocode addresses and
+ * landmarks, so make up a few for the query somewhere near the center
+ */
+function createLandmarks(
+	textQuery: string,
+	center: { latitude: number; longitude: number },
+) {
+	placesFaker.seed(hashString(textQuery.toLowerCase()))
+	const city = placesFaker.location.city()
+	return Array.from({ length: 3 }, (_, index) => {
+		const street = placesFaker.location.streetAddress()
+		return {
+			id: `MOCK_LANDMARK_${hashString(`${textQuery}:${index}`)}`,
+			displayName: {
+				text: index === 0 ? textQuery : `${textQuery}, ${street}`,
+				languageCode: 'en',
+			},
+			formattedAddress: `${street}, ${city}`,
+			location: {
+				latitude:
+					center.latitude + placesFaker.number.float({ min: -0.02, max: 0.02 }),
+				longitude:
+					center.longitude +
+					placesFaker.number.float({ min: -0.02, max: 0.02 }),
+			},
+		}
+	})
+}
+
+export const handlers: Array<HttpHandler> = [
+	http.post(`${API_URL}/places\\:searchNearby`, async ({ request }) => {
+		if (passthroughGooglePlaces) return passthrough()
+
+		const fieldMask = requireFieldMask(request)
+		if (fieldMask instanceof Response) return fieldMask
+
+		const result = SearchNearbySchema.safeParse(
+			await request.json().catch(() => null),
+		)
+		if (!result.success) {
+			return errorResponse(400, 'INVALID_ARGUMENT', result.error.message)
+		}
+
+		const { maxResultCount, rankPreference, locationRestriction } = result.data
+		const places = getPlacesNearby(
+			locationRestriction.circle.center,
+			locationRestriction.circle.radius,
+		)
+			.sort((a, b) =>
+				rankPreference === 'DISTANCE'
+					? a.distance - b.distance
+					: b.userRatingCount - a.userRatingCount,
+			)
+			.slice(0, maxResultCount)
+			.map(({ distance, ...place }) =>
+				applyFieldMask(place, fieldMask, 'places.'),
+			)
+
+		// an empty search is an empty object, not an empty list
+		return json(places.length ? { places } : {})
+	}),
+	http.post(`${API_URL}/places\\:searchText`, async ({ request }) => {
+		if (passthroughGooglePlaces) return passthrough()
+
+		const fieldMask = requireFieldMask(request)
+		if (fieldMask instanceof Response) return fieldMask
+
+		const result = SearchTextSchema.safeParse(
+			await request.json().catch(() => null),
+		)
+		if (!result.success) {
+			return errorResponse(400, 'INVALID_ARGUMENT', result.error.message)
+		}
+
+		const { textQuery, includedType, pageSize, locationBias } = result.data
+		if (!includedType) {
+			const landmarks = createLandmarks(textQuery, locationBias.circle.center)
+				.slice(0, pageSize)
+				.map((place) => applyFieldMask(place, fieldMask, 'places.'))
+			return json({ places: landmarks })
+		}
+
+		// the real API only prefers places in the circle, but the mock world is
+		// endless so it only looks there
+		const places = getPlacesNearby(
+			locationBias.circle.center,
+			locationBias.circle.radius,
+		)
+			.filter((place) => matchesTextQuery(place, textQuery))
+			.sort((a, b) => a.distance - b.distance)
+			.slice(0, pageSize)
+			.map(({ distance, ...place }) =>
+				applyFieldMask(place, fieldMask, 'places.'),
+			)
+
+		return json(places.length ? { places } : {})
+	}),
+	http.get(`${API_URL}/places/:placeId`, ({ request, params }) => {
+		if (passthroughGooglePlaces) return passthrough()
+
+		const fieldMask = requireFieldMask(request)
+		if (fieldMask instanceof Response) return fieldMask
+
+		const place = getPlace(String(params.placeId))
+		if (!place) {
+			return errorResponse(404, 'NOT_FOUND', 'Requested entity was not found.')
+		}
+
+		return json(applyFieldMask(place, fieldMask))
+	}),
+	http.get(
+		`${API_URL}/places/:placeId/photos/:photoId/media`,
+		async ({ request, params }) => {
+			if (passthroughGooglePlaces) return passthrough()
+
+			const url = new URL(request.url)
+			if (
+				!request.headers.get('X-Goog-Api-Key') &&
+				!url.searchParams.get('key')
+			) {
+				return errorResponse(
+					403,
+					'PERMISSION_DENIED',
+					"Method doesn't allow unregistered callers.",
+				)
+			}
+			if (!getPlace(String(params.placeId))) {
+				return errorResponse(
+					404,
+					'NOT_FOUND',
+					'Requested entity was not found.',
+				)
+			}
+
+			const photoName = `places/${params.placeId}/photos/${params.photoId}`
+			const fixtures = (await fsExtra.readdir(photoFixturesDir)).sort()
+			const fixture = fixtures[hashString(photoName) % fixtures.length]
+			const buffer = await fsExtra.readFile(
+				path.join(photoFixturesDir, fixture!),
+			)
+			return new HttpResponse(buffer, {
+				headers: { 'Content-Type': 'image/png' },
+			})
+		},
+	),
+]
@@ -1,6 +1,7 @@
 import closeWithGrace from 'close-with-grace'
 import { setupServer } from 'msw/node'
 import { handlers as githubHandlers } from './github.ts'
+import { handlers as googlePlacesHandlers } from './google-places.ts'
 import { handlers as pwnedPasswordApiHandlers } from './pwnedpasswords.ts'
 import { handlers as resendHandlers } from './resend.ts'
 import { handlers as tigrisHandlers } from './tigris.ts'
@@ -10,6 +11,7 @@ export const server = setupServer(
 	...githubHandlers,
 	...tigrisHandlers,
 	...pwnedPasswordApiHandlers,
+	...googlePlacesHandlers,
 )
 
 server.listen({